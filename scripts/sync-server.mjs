@@ -0,0 +1,78 @@
+// Minimal sync server for Hasaba (no dependencies). Keeps the newest version of every record and hands out what changed
+// since a cursor. Same rule as the app: newer updatedAt wins, ties go to the greater device id.
+//
+//   PORT=8787 SYNC_TOKEN=secreto SYNC_FILE=./sync-data.json node scripts/sync-server.mjs
+//
+// Without SYNC_FILE the data lives only in memory (useful to try it out).
+import { createServer } from "node:http";
+import { existsSync, readFileSync, writeFileSync, renameSync } from "node:fs";
+
+const PORT = Number(process.env.PORT) || 8787;
+const TOKEN = process.env.SYNC_TOKEN || "";
+const FILE = process.env.SYNC_FILE || "";
+const MAX_BODY = 50 * 1024 * 1024;
+
+// records: "store:key" -> { store, key, updatedAt, device, deleted?, value?, seq }
+let state = { seq: 0, records: {} };
+if (FILE && existsSync(FILE)) state = JSON.parse(readFileSync(FILE, "utf8"));
+
+const save = () => {
+  if (!FILE) return;
+  writeFileSync(`${FILE}.tmp`, JSON.stringify(state));
+  renameSync(`${FILE}.tmp`, FILE);
+};
+
+const wins = (a, b) => (a.updatedAt !== b.updatedAt ? a.updatedAt > b.updatedAt : a.device > b.device);
+
+const valid = (r) =>
+  r && typeof r === "object" && typeof r.store === "string" && typeof r.key === "string" && Number.isFinite(r.updatedAt) && typeof r.device === "string";
+
+function sync({ since, changes }) {
+  let dirty = false;
+  for (const r of changes) {
+    if (!valid(r)) continue;
+    const id = `${r.store}:${r.key}`;
+    const cur = state.records[id];
+    if (cur && !wins(r, cur)) continue;
+    const { store, key, updatedAt, device } = r;
+    state.records[id] = r.deleted ? { store, key, updatedAt, device, deleted: true, seq: ++state.seq } : { store, key, updatedAt, device, value: r.value, seq: ++state.seq };
+    dirty = true;
+  }
+  if (dirty) save();
+  const out = Object.values(state.records)
+    .filter((r) => r.seq > since)
+    .map(({ seq, ...r }) => r);
+  return { cursor: state.seq, changes: out };
+}
+
+const send = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+createServer((req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (req.method !== "POST" || new URL(req.url, "http://x").pathname !== "/sync") return send(res, 404, { error: "not found" });
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: "unauthorized" });
+
+  let size = 0;
+  const chunks = [];
+  req.on("data", (chunk) => {
+    size += chunk.length;
+    if (size > MAX_BODY) req.destroy();
+    else chunks.push(chunk);
+  });
+  req.on("end", () => {
+    let body;
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    } catch {
+      return send(res, 400, { error: "invalid json" });
+    }
+    if (!body || !Number.isFinite(body.since) || !Array.isArray(body.changes)) return send(res, 400, { error: "invalid request" });
+    send(res, 200, sync(body));
+  });
+}).listen(PORT, () => console.log(`Hasaba sync en http://localhost:${PORT}/sync${FILE ? ` (datos en ${FILE})` : " (solo en memoria)"}`));
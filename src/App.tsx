@@ -1,5 +1,21 @@
 
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
 import "./app.css";
 
 // === Palette ===
@@ -11,15 +27,15 @@ const PALETTE = {
   accent: "#707070",
 };
 
-// === Money helpers (COP in cents) ===
-const COP = new Intl.NumberFormat("es-CO", {
-  style: "currency",
-  currency: "COP",
-  maximumFractionDigits: 0,
-});
-const fmtCOP = (cents?: number | null) => {
+// === Money helpers (cents of the account's currency) ===
+const DEFAULT_CURRENCY = "COP";
+const CURRENCIES = ["COP", "USD", "EUR"];
+const moneyFormats: Record<string, Intl.NumberFormat> = {};
+const fmtMoney = (cents?: number | null, currency = DEFAULT_CURRENCY) => {
+  // COP is shown without decimals
+  moneyFormats[currency] ??= new Intl.NumberFormat("es-CO", { style: "currency", currency, ...(currency === "COP" ? { maximumFractionDigits: 0 } : {}) });
   const safe = Object.is(cents, -0) ? 0 : (cents ?? 0);
-  return COP.format((safe as number) / 100);
+  return moneyFormats[currency].format((safe as number) / 100);
 };
 const toCents = (str: string) => {
   if (!str) return 0;
@@ -29,6 +45,7 @@ const toCents = (str: string) => {
   return Math.round(v * 100);
 };
 const todayStr = () => new Date().toISOString().slice(0, 10);
+const newId = () => crypto.randomUUID?.() || String(Math.random());
 
 // === Types ===
 const ACCOUNT_TYPES = { CASH: "CASH", CREDIT: "CREDIT" } as const;
@@ -41,18 +58,76 @@ type Account = {
   initialBalanceCents?: number; // for CASH
   creditLimitCents?: number; // for CREDIT
   initialDebtCents?: number; // for CREDIT
+  statementDay?: number; // CREDIT: day of month the statement closes (fecha de corte)
+  dueDay?: number; // CREDIT: day of month the payment is due (fecha límite de pago)
+  monthlyRatePct?: number; // CREDIT: tasa mensual, e.g. 2.1
+  minPaymentPct?: number; // CREDIT: share of the statement required as minimum payment
+  liquid?: boolean; // CASH: counts towards "Liquidez total" (default true)
+  archived?: boolean;
+  currency?: string; // ISO 4217 code; DEFAULT_CURRENCY when missing
+  lastReconciliation?: { date: string; balanceCents: number }; // real balance confirmed against the bank
+  investment?: InvestmentInfo; // CASH: CDTs, funds, stocks… valued with Valuation entries
+};
+
+type InvestmentKind = "CDT" | "FONDO" | "ACCIONES" | "OTRA";
+type InvestmentInfo = {
+  kind: InvestmentKind;
+  annualRatePct?: number; // CDT: tasa efectiva anual
+  openDate?: string; // CDT: fecha de apertura; the initial balance counts as contributed that day
+  maturityDate?: string; // CDT: fecha de vencimiento
+};
+// Market value of an investment account on a date, as read on the statement or the broker
+type Valuation = { id: string; accountId: string; date: string; valueCents: number; note?: string | null };
+
+type Payee = {
+  id: string;
+  name: string;
+  defaultCategoryId?: string | null; // suggested when the payee is picked in the form
+  updatedAt?: number;
+};
+
+type Goal = {
+  id: string;
+  name: string;
+  accountId: string; // the account the money is set aside in ("Inversión - Ahorro" by default)
+  targetCents: number; // in the account's currency
+  targetDate: string; // YYYY-MM-DD
+  createdAt: number;
+  updatedAt?: number;
+};
+
+// Money lent to or borrowed from a person (a Payee). The money itself moves with GASTO / INGRESO movements tagged
+// with loanId, which keep account balances right but stay out of spending and income.
+type LoanDirection = "LENT" | "BORROWED";
+type Loan = {
+  id: string;
+  payeeId: string;
+  direction: LoanDirection;
+  currency: string; // of the accounts its movements use
+  dueDate?: string | null;
+  note?: string | null;
+  createdAt: number;
+  updatedAt?: number;
 };
 
-type Category = { id: string; name: string; kind: "GASTO" | "INGRESO" };
+type Category = {
+  id: string;
+  name: string;
+  kind: "GASTO" | "INGRESO";
+  parentId?: string | null; // one level of nesting: "Transporte › Gasolina"
+  color?: string;
+  icon?: string;
+};
 
 // === Constants ===
 const PAYMENT_METHODS = [
-  { id: "VISA", label: "Tarjeta de crédito Visa", accountName: "Tarjeta Visa" },
-  { id: "DEBITO_AHORROS", label: "Tarjeta débito cuenta de ahorros", accountName: "Cuenta de ahorros" },
-  { id: "NEQUI", label: "Nequi", accountName: "Nequi" },
-  { id: "DAVIPLATA", label: "Daviplata", accountName: "Daviplata" },
-  { id: "CUENTA_AHORROS", label: "Cuenta de ahorros", accountName: "Cuenta de ahorros" },
-  { id: "EFECTIVO", label: "Efectivo", accountName: "Efectivo" },
+  { id: "VISA", label: "Tarjeta de crédito Visa", accountId: "visa" },
+  { id: "DEBITO_AHORROS", label: "Tarjeta débito cuenta de ahorros", accountId: "ahorros" },
+  { id: "NEQUI", label: "Nequi", accountId: "nequi" },
+  { id: "DAVIPLATA", label: "Daviplata", accountId: "daviplata" },
+  { id: "CUENTA_AHORROS", label: "Cuenta de ahorros", accountId: "ahorros" },
+  { id: "EFECTIVO", label: "Efectivo", accountId: "efectivo" },
+  { id: "OTRA", label: "Otra cuenta", accountId: null },
 ];
 
 const defaultAccounts: Account[] = [
@@ -63,68 +138,764 @@ const defaultAccounts: Account[] = [
   { id: "empresa", name: "Cuenta de la empresa", type: ACCOUNT_TYPES.CASH, initialBalanceCents: 0 },
   { id: "efectivo", name: "Efectivo", type: ACCOUNT_TYPES.CASH, initialBalanceCents: 0 },
   { id: "ahorros", name: "Cuenta de ahorros", type: ACCOUNT_TYPES.CASH, initialBalanceCents: 0 },
-  { id: "inversion", name: "Inversión - Ahorro", type: ACCOUNT_TYPES.CASH, initialBalanceCents: 0 },
+  { id: "inversion", name: "Inversión - Ahorro", type: ACCOUNT_TYPES.CASH, initialBalanceCents: 0, liquid: false },
 ];
 
+const CATEGORY_COLORS = ["#7A9E9F", "#B5838D", "#E5989B", "#6D6875", "#9A8C98", "#84A59D", "#F28482", "#F6BD60", "#90A955", "#4F5D75"];
+const CATEGORY_ICONS = ["🏠", "🛒", "🍽️", "🚗", "⛽", "🚕", "💊", "🐾", "🧹", "📺", "👕", "🎓", "✈️", "🎁", "💼", "💸", "📈", "🏷️"];
+
 const defaultCategories: Category[] = [
   // Gastos
-  { id: "vivienda_servicios", name: "Vivienda - Servicios", kind: "GASTO" },
-  { id: "mercado", name: "Mercado", kind: "GASTO" },
-  { id: "restaurantes_ocio", name: "Restaurantes - Ocio", kind: "GASTO" },
-  { id: "transporte", name: "Transporte", kind: "GASTO" },
-  { id: "salud_bienestar", name: "Salud - bienestar", kind: "GASTO" },
-  { id: "mascota", name: "Mascota", kind: "GASTO" },
-  { id: "aseo_hogar", name: "Aseo - hogar", kind: "GASTO" },
-  { id: "suscripciones", name: "Suscripciones", kind: "GASTO" },
+  { id: "vivienda_servicios", name: "Vivienda - Servicios", kind: "GASTO", color: "#7A9E9F", icon: "🏠" },
+  { id: "mercado", name: "Mercado", kind: "GASTO", color: "#90A955", icon: "🛒" },
+  { id: "restaurantes_ocio", name: "Restaurantes - Ocio", kind: "GASTO", color: "#F28482", icon: "🍽️" },
+  { id: "transporte", name: "Transporte", kind: "GASTO", color: "#4F5D75", icon: "🚗" },
+  { id: "salud_bienestar", name: "Salud - bienestar", kind: "GASTO", color: "#84A59D", icon: "💊" },
+  { id: "mascota", name: "Mascota", kind: "GASTO", color: "#B5838D", icon: "🐾" },
+  { id: "aseo_hogar", name: "Aseo - hogar", kind: "GASTO", color: "#9A8C98", icon: "🧹" },
+  { id: "suscripciones", name: "Suscripciones", kind: "GASTO", color: "#6D6875", icon: "📺" },
   // Ingresos
-  { id: "trabajos", name: "Trabajos", kind: "INGRESO" },
-  { id: "ventas_reembolsos", name: "Ventas - reembolsos", kind: "INGRESO" },
-  { id: "rendimientos", name: "Rendimientos", kind: "INGRESO" },
+  { id: "trabajos", name: "Trabajos", kind: "INGRESO", color: "#90A955", icon: "💼" },
+  { id: "ventas_reembolsos", name: "Ventas - reembolsos", kind: "INGRESO", color: "#F6BD60", icon: "💸" },
+  { id: "rendimientos", name: "Rendimientos", kind: "INGRESO", color: "#7A9E9F", icon: "📈" },
 ];
 
-const LS_KEYS = { ACCOUNTS: "ga_accounts", CATEGORIES: "ga_categories", TXS: "ga_transactions" };
+// Keys used before IndexedDB; only read by the one-time storage migration and by old backups
+const LS_KEYS = {
+  ACCOUNTS: "ga_accounts",
+  CATEGORIES: "ga_categories",
+  TXS: "ga_transactions",
+  BUDGETS: "ga_budgets",
+  RECURRING: "ga_recurring",
+  TX_HISTORY: "ga_tx_history",
+};
 
-// === Storage hook with safety ===
-function useLocalState<T>(key: string, initial: T) {
-  const [state, setState] = useState<T>(() => {
-    try {
-      const raw = localStorage.getItem(key);
-      return raw ? JSON.parse(raw) : initial;
-    } catch {
-      return initial;
+// Fields added while data lived in localStorage; applied when that data is migrated or restored
+const upgradeLegacyAccount = (a: Account): Account =>
+  // "Inversión - Ahorro" was never part of the hardcoded liquidity list
+  a.id === "inversion" && a.liquid === undefined ? { ...a, liquid: false } : a;
+function upgradeLegacyCategory(c: Category): Category {
+  if (c.color && c.icon) return c;
+  // Categories stored before colors/icons existed pick up the seeded ones
+  const seed = defaultCategories.find((d) => d.id === c.id);
+  return { ...c, color: c.color || seed?.color || CATEGORY_COLORS[0], icon: c.icon || seed?.icon || "🏷️" };
+}
+
+// === Storage (IndexedDB) ===
+// One object store per entity; StoreName matches the keys of BackupData
+type StoreName = keyof BackupData;
+type StoreConfig = {
+  keyPath: string;
+  ordered: boolean; // keeps the user's order in the meta store; transactions are sorted on load instead
+  entries: (state: any) => [string, unknown][];
+  row: (key: string, value: any) => unknown;
+  fromRows: (rows: any[]) => any;
+};
+const listStore = (keyPath: string, ordered: boolean): StoreConfig => ({
+  keyPath,
+  ordered,
+  entries: (state: any[]) => (state || []).map((x) => [x[keyPath], x]),
+  row: (_key, value) => value,
+  fromRows: (rows) => rows,
+});
+const STORES: Record<StoreName, StoreConfig> = {
+  accounts: listStore("id", true),
+  categories: listStore("id", true),
+  payees: listStore("id", false),
+  goals: listStore("id", true),
+  valuations: listStore("id", false),
+  loans: listStore("id", true),
+  transactions: listStore("id", false),
+  budgets: listStore("categoryId", true),
+  recurring: listStore("id", true),
+  rates: listStore("id", false),
+  settings: {
+    keyPath: "id",
+    ordered: false,
+    entries: (state: Settings) => [["app", state]],
+    row: (id, settings) => ({ ...settings, id }),
+    fromRows: (rows) => {
+      const { id, ...settings } = rows[0] || {};
+      return { ...defaultSettings, ...settings };
+    },
+  },
+  txHistory: {
+    keyPath: "txId",
+    ordered: false,
+    entries: (state: TxHistory) => Object.entries(state || {}),
+    row: (txId, entries) => ({ txId, entries }),
+    fromRows: (rows) => Object.fromEntries(rows.map((r) => [r.txId, r.entries])),
+  },
+};
+const DB_NAME = "hasaba";
+const STORE_NAMES = Object.keys(STORES) as StoreName[];
+
+// DB_MIGRATIONS[n] upgrades the database from version n to n + 1; append steps, never edit old ones
+const DB_MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // 1: object stores, with the indexes used to query transactions
+  (db) => {
+    db.createObjectStore("accounts", { keyPath: "id" });
+    db.createObjectStore("categories", { keyPath: "id" });
+    const txs = db.createObjectStore("transactions", { keyPath: "id" });
+    for (const index of ["date", "accountFromId", "accountToId", "categoryId"]) txs.createIndex(index, index);
+    db.createObjectStore("budgets", { keyPath: "categoryId" });
+    db.createObjectStore("recurring", { keyPath: "id" });
+    db.createObjectStore("txHistory", { keyPath: "txId" });
+    db.createObjectStore("meta");
+  },
+  // 2: one-time copy of the ga_* localStorage keys; a fresh install gets the default accounts and categories
+  (_db, tx) => {
+    const read = (key: string) => {
+      try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) : undefined;
+      } catch {
+        return undefined;
+      }
+    };
+    const legacy: Omit<BackupData, "rates" | "settings" | "payees" | "goals" | "valuations" | "loans"> = {
+      accounts: (read(LS_KEYS.ACCOUNTS) ?? defaultAccounts).map(upgradeLegacyAccount),
+      categories: (read(LS_KEYS.CATEGORIES) ?? defaultCategories).map(upgradeLegacyCategory),
+      transactions: read(LS_KEYS.TXS) ?? [],
+      budgets: read(LS_KEYS.BUDGETS) ?? [],
+      recurring: read(LS_KEYS.RECURRING) ?? [],
+      txHistory: read(LS_KEYS.TX_HISTORY) ?? {},
+    };
+    for (const name of ["accounts", "categories", "transactions", "budgets", "recurring", "txHistory"] as const) {
+      const cfg = STORES[name];
+      const entries = cfg.entries(legacy[name]);
+      for (const [key, value] of entries) tx.objectStore(name).put(cfg.row(key, value));
+      if (cfg.ordered)
+        tx.objectStore("meta").put(
+          entries.map(([key]) => key),
+          `order:${name}`
+        );
     }
+    tx.addEventListener("complete", () => Object.values(LS_KEYS).forEach((key) => localStorage.removeItem(key)));
+  },
+  // 3: exchange rates and app settings (base currency)
+  (db) => {
+    db.createObjectStore("rates", { keyPath: "id" });
+    db.createObjectStore("settings", { keyPath: "id" });
+  },
+  // 4: payees
+  (db) => {
+    db.createObjectStore("payees", { keyPath: "id" });
+  },
+  // 5: attached files, kept apart so the transaction list stays small
+  (db) => {
+    db.createObjectStore("attachments", { keyPath: "id" });
+  },
+  // 6: savings goals
+  (db) => {
+    db.createObjectStore("goals", { keyPath: "id" });
+  },
+  // 7: valuations of investment accounts
+  (db) => {
+    db.createObjectStore("valuations", { keyPath: "id" });
+  },
+  // 8: loans to and from people
+  (db) => {
+    db.createObjectStore("loans", { keyPath: "id" });
+  },
+  // 9: change log for sync (one stamp per record, deletions included)
+  (db) => {
+    db.createObjectStore("sync", { keyPath: "id" });
+  },
+];
+
+const requestResult = <T,>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_MIGRATIONS.length);
+  req.onupgradeneeded = (e) => {
+    for (let v = e.oldVersion; v < DB_MIGRATIONS.length; v++) DB_MIGRATIONS[v](req.result, req.transaction!);
+  };
+  return requestResult(req).then((db) => {
+    // another tab opened a newer version: let it upgrade
+    db.onversionchange = () => {
+      db.close();
+      alert("La app se actualizó en otra pestaña. Recarga esta página para seguir guardando.");
+    };
+    return db;
+  });
+}
+
+// === Encryption (optional PIN) ===
+// With a PIN set, every record is stored as { <key>, sealed } using AES-GCM with a key derived from the PIN (PBKDF2)
+type Sealed = { iv: Uint8Array; data: ArrayBuffer };
+type Security = { salt: Uint8Array; iterations: number; check: Sealed; lockMinutes: number }; // kept in the clear in meta
+const PIN_CHECK = "hasaba";
+const PIN_ITERATIONS = 310000;
+
+async function deriveKey(pin: string, salt: Uint8Array, iterations: number) {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey({ name: "PBKDF2", salt, iterations, hash: "SHA-256" }, material, { name: "AES-GCM", length: 256 }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+async function sealBytes(key: CryptoKey, bytes: BufferSource): Promise<Sealed> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, bytes);
+  return { iv, data };
+}
+const unsealBytes = (key: CryptoKey, sealed: Sealed) => crypto.subtle.decrypt({ name: "AES-GCM", iv: sealed.iv }, key, sealed.data);
+const seal = (key: CryptoKey, value: unknown) => sealBytes(key, new TextEncoder().encode(JSON.stringify(value)));
+async function unseal(key: CryptoKey, sealed: Sealed) {
+  return JSON.parse(new TextDecoder().decode(await unsealBytes(key, sealed)));
+}
+async function createSecurity(pin: string, lockMinutes: number) {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(pin, salt, PIN_ITERATIONS);
+  const security: Security = { salt, iterations: PIN_ITERATIONS, check: await seal(key, PIN_CHECK), lockMinutes };
+  return { key, security };
+}
+// A wrong PIN derives a key that cannot open the check value
+async function unlockKey(security: Security, pin: string) {
+  const key = await deriveKey(pin, security.salt, security.iterations);
+  try {
+    return (await unseal(key, security.check)) === PIN_CHECK ? key : null;
+  } catch {
+    return null;
+  }
+}
+const readSecurity = (db: IDBDatabase): Promise<Security | null> =>
+  requestResult(db.transaction("meta").objectStore("meta").get("security")).then((s) => s || null);
+const putMeta = (db: IDBDatabase, key: string, value: unknown) =>
+  new Promise<void>((resolve, reject) => {
+    const tx = db.transaction("meta", "readwrite");
+    tx.objectStore("meta").put(value, key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () => reject(tx.error);
+  });
+
+async function sealRow(name: StoreName, row: any, key: CryptoKey | null) {
+  const keyPath = STORES[name].keyPath;
+  return key ? { [keyPath]: row[keyPath], sealed: await seal(key, row) } : row;
+}
+
+// Open database plus the key in use; writes go through `queue` so they run in order (and a re-encryption never interleaves).
+// `device` signs local changes for sync; `incoming` holds the stamps of changes that came from the server and are being saved.
+type StorageHandle = { db: IDBDatabase; key: CryptoKey | null; queue: Promise<unknown>; device: string; incoming: Map<string, SyncStamp> };
+async function openHandle(db: IDBDatabase, key: CryptoKey | null): Promise<StorageHandle> {
+  let device: string | undefined = await requestResult(db.transaction("meta").objectStore("meta").get("device"));
+  if (!device) {
+    device = newId();
+    await putMeta(db, "device", device);
+  }
+  return { db, key, queue: Promise.resolve(), device, incoming: new Map() };
+}
+function enqueue<T>(store: StorageHandle, job: () => Promise<T>): Promise<T> {
+  const run = store.queue.then(job, job);
+  store.queue = run.catch(() => undefined);
+  return run;
+}
+
+async function loadDatabase(db: IDBDatabase, key: CryptoKey | null): Promise<BackupData> {
+  // every request is issued before decrypting: the transaction closes once we await anything else
+  const tx = db.transaction([...STORE_NAMES, "meta"], "readonly");
+  const [rows, orders] = await Promise.all([
+    Promise.all(STORE_NAMES.map((name) => requestResult<any[]>(tx.objectStore(name).getAll()))),
+    Promise.all(STORE_NAMES.map((name) => requestResult<string[] | undefined>(tx.objectStore("meta").get(`order:${name}`)))),
+  ]);
+  const out: any = {};
+  for (const [i, name] of STORE_NAMES.entries()) {
+    const cfg = STORES[name];
+    let list = await Promise.all(
+      rows[i].map((r) => {
+        if (!r.sealed) return r;
+        if (!key) throw new Error("los datos están cifrados");
+        return unseal(key, r.sealed);
+      })
+    );
+    if (cfg.ordered) {
+      const pos = new Map((orders[i] || []).map((k, n) => [k, n]));
+      list = list.sort((a, b) => (pos.get(a[cfg.keyPath]) ?? Infinity) - (pos.get(b[cfg.keyPath]) ?? Infinity));
+    }
+    out[name] = cfg.fromRows(list);
+  }
+  // newest first, like the in-memory list
+  out.transactions.sort(newestFirst);
+  return out;
+}
+
+// Writes only the records that changed between two states of a store
+const newestFirst = (a: Tx, b: Tx) => b.createdAt - a.createdAt || b.date.localeCompare(a.date);
+async function writeStore(store: StorageHandle, name: StoreName, prev: unknown, next: unknown): Promise<void> {
+  const cfg = STORES[name];
+  const before = new Map(cfg.entries(prev));
+  const after = cfg.entries(next);
+  const keys = after.map(([key]) => key);
+  const kept = new Set(keys);
+  const changed = after.filter(([key, value]) => before.get(key) !== value);
+  const removed = [...before.keys()].filter((key) => !kept.has(key));
+  const puts = await Promise.all(changed.map(([key, value]) => sealRow(name, cfg.row(key, value), store.key)));
+  const stamps = SYNCED_STORES.includes(name)
+    ? [...changed.map(([key]) => syncStamp(store, name, key, false)), ...removed.map((key) => syncStamp(store, name, key, true))]
+    : [];
+  return new Promise((resolve, reject) => {
+    const tx = store.db.transaction([name, "sync", ...(cfg.ordered ? ["meta"] : [])], "readwrite");
+    const os = tx.objectStore(name);
+    for (const row of puts) os.put(row);
+    for (const key of removed) os.delete(key);
+    for (const stamp of stamps) tx.objectStore("sync").put(stamp);
+    if (cfg.ordered && [...before.keys()].join("\n") !== keys.join("\n")) tx.objectStore("meta").put(keys, `order:${name}`);
+    tx.oncomplete = () => {
+      for (const stamp of stamps) if (store.incoming.get(stamp.id) === stamp) store.incoming.delete(stamp.id);
+      resolve();
+    };
+    tx.onerror = tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Rewrites every store with `key` (null = in the clear) and sets or removes the PIN; used to turn encryption on/off and to change the PIN
+async function rewriteDatabase(store: StorageHandle, data: BackupData, key: CryptoKey | null, security: Security | null) {
+  const rows = await Promise.all(
+    STORE_NAMES.map((name) => Promise.all(STORES[name].entries(data[name]).map(([k, v]) => sealRow(name, STORES[name].row(k, v), key))))
+  );
+  // attachments are not in memory: re-read them with the old key
+  const files = await requestResult<any[]>(store.db.transaction("attachments").objectStore("attachments").getAll());
+  const fileRows = await Promise.all(files.map(async (r) => attachmentRow(r.id, await attachmentFromRow(r, store.key), key)));
+  await new Promise<void>((resolve, reject) => {
+    const tx = store.db.transaction([...STORE_NAMES, "attachments", "meta"], "readwrite");
+    STORE_NAMES.forEach((name, i) => {
+      const os = tx.objectStore(name);
+      os.clear();
+      rows[i].forEach((row) => os.put(row));
+    });
+    tx.objectStore("attachments").clear();
+    fileRows.forEach((row) => tx.objectStore("attachments").put(row));
+    if (security) tx.objectStore("meta").put(security, "security");
+    else tx.objectStore("meta").delete("security");
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () => reject(tx.error);
   });
+  store.key = key;
+}
+
+// Indexed lookups, for when the whole list is not needed. A sealed row keeps only its id in the clear (dates, accounts
+// and categories would give too much away), so with a PIN the indexes are empty and every row is read and opened instead
+type TxIndex = "date" | "accountFromId" | "accountToId" | "categoryId";
+async function queryTransactions(store: StorageHandle, index: TxIndex, query: IDBValidKey | IDBKeyRange): Promise<Tx[]> {
+  const os = store.db.transaction("transactions").objectStore("transactions");
+  const key = store.key;
+  if (!key) return requestResult(os.index(index).getAll(query));
+  const rows: any[] = await requestResult(os.getAll());
+  const txs: Tx[] = await Promise.all(rows.map((r) => (r.sealed ? unseal(key, r.sealed) : r)));
+  const range = query instanceof IDBKeyRange ? query : IDBKeyRange.only(query);
+  return txs.filter((t) => t[index] != null && range.includes(t[index]));
+}
+
+const storageErrorMessage = (err: any) =>
+  err?.name === "QuotaExceededError" ? "el dispositivo no tiene espacio disponible" : err?.message || "error desconocido";
+
+// Like useState, but every change is persisted; failed writes are reported and retried on the next change or retry
+function useStoredState<K extends StoreName>(
+  store: StorageHandle,
+  name: K,
+  initial: BackupData[K],
+  retryToken: number,
+  onResult: (name: StoreName, error: string | null) => void
+) {
+  const [state, setState] = useState<BackupData[K]>(initial);
+  const saved = useRef(initial); // last state written
+  const queued = useRef(initial); // last state handed to the queue
   useEffect(() => {
-    try {
-      localStorage.setItem(key, JSON.stringify(state));
-    } catch {}
-  }, [key, state]);
+    if (queued.current === state && saved.current === state) return;
+    queued.current = state;
+    // diffed when the write runs, against what is really stored: earlier writes may still be pending or may have failed
+    enqueue(store, async () => {
+      await writeStore(store, name, saved.current, state);
+      saved.current = state;
+    }).then(
+      () => onResult(name, null),
+      (err) => onResult(name, storageErrorMessage(err))
+    );
+  }, [state, retryToken]); // eslint-disable-line
   return [state, setState] as const;
 }
 
-// === Data migration (adds missing accounts/categories) ===
-function ensureAccounts(current: Account[]): Account[] {
-  const byId = new Map(current.map((a) => [a.id, a]));
-  let changed = false;
-  for (const a of defaultAccounts) {
-    if (!byId.has(a.id)) {
-      byId.set(a.id, a);
-      changed = true;
+// === Sync (self-hosted server) ===
+// Every write stamps the records it touches with { updatedAt, device }; deletions leave a tombstone stamp. A sync sends the
+// dirty records to the server and gets back whatever changed there since `cursor`. Both sides keep the record with the newest
+// stamp, ties going to the greater device id, so every device ends with the same data whatever the order. Settings stay per device.
+// Protocol: POST { device, since, changes: SyncRecord[] } -> { cursor, changes: SyncRecord[] } (see scripts/sync-server.mjs).
+type SyncStamp = { id: string; store: StoreName; key: string; updatedAt: number; device: string; deleted?: boolean; dirty?: boolean };
+type SyncRecord = { store: StoreName; key: string; updatedAt: number; device: string; deleted?: boolean; value?: unknown };
+type SyncConfig = { url: string; token: string; cursor: number; lastSyncAt: number | null };
+type SyncChanges = Partial<Record<StoreName, { puts: [string, unknown][]; deletes: string[] }>>;
+const SYNC_INTERVAL_MS = 60 * 1000;
+const SYNC_TIMEOUT_MS = 20 * 1000;
+const SYNCED_STORES: StoreName[] = [
+  "accounts",
+  "categories",
+  "payees",
+  "goals",
+  "valuations",
+  "loans",
+  "transactions",
+  "budgets",
+  "recurring",
+  "rates",
+  "txHistory",
+];
+
+const syncWins = (a: Pick<SyncStamp, "updatedAt" | "device">, b: Pick<SyncStamp, "updatedAt" | "device">) =>
+  a.updatedAt !== b.updatedAt ? a.updatedAt > b.updatedAt : a.device > b.device;
+
+// A change saved now: local, unless it is the echo of one that came from the server
+function syncStamp(store: StorageHandle, name: StoreName, key: string, deleted: boolean): SyncStamp {
+  const id = `${name}:${key}`;
+  const remote = store.incoming.get(id);
+  if (remote && !!remote.deleted === deleted) return remote;
+  return { id, store: name, key, updatedAt: Date.now(), device: store.device, deleted, dirty: true };
+}
+
+// Records saved before sync existed have no stamp: they go out with their own timestamps. The seeded accounts and
+// categories nobody touched go out older than anything else, so a fresh install never overwrites edits made elsewhere.
+function unstampedSyncStamp(store: StorageHandle, name: StoreName, key: string, value: any): SyncStamp {
+  const canonical = (x: any) =>
+    JSON.stringify(
+      Object.keys(x)
+        .sort()
+        .map((k) => [k, x[k]])
+    );
+  const seeds: any[] = name === "accounts" ? defaultAccounts.map(upgradeLegacyAccount) : name === "categories" ? defaultCategories : [];
+  const seed = seeds.find((d) => d.id === key);
+  const own = Number(value?.updatedAt ?? value?.createdAt);
+  const updatedAt = Number.isFinite(own) ? own : seed && canonical(seed) === canonical(value) ? -1 : 0;
+  return { id: `${name}:${key}`, store: name, key, updatedAt, device: store.device, dirty: true };
+}
+
+const readSyncConfig = (db: IDBDatabase): Promise<SyncConfig | null> =>
+  requestResult(db.transaction("meta").objectStore("meta").get("sync")).then((c) => c || null);
+
+// One round trip. Returns what has to change in memory; the stamps are already saved.
+async function runSync(store: StorageHandle, data: BackupData, config: SyncConfig): Promise<{ changes: SyncChanges; config: SyncConfig }> {
+  const stamps = await requestResult<SyncStamp[]>(store.db.transaction("sync").objectStore("sync").getAll());
+  const byId = new Map(stamps.map((st) => [st.id, st]));
+  const values = new Map<string, unknown>();
+  const outgoing: SyncStamp[] = [];
+  for (const name of SYNCED_STORES) {
+    for (const [key, value] of STORES[name].entries(data[name])) {
+      const id = `${name}:${key}`;
+      values.set(id, value);
+      if (!byId.has(id)) byId.set(id, unstampedSyncStamp(store, name, key, value));
     }
   }
-  const list = Array.from(byId.values());
-  return changed ? list : current;
+  for (const st of byId.values()) if (st.dirty && (st.deleted || values.has(st.id))) outgoing.push(st);
+
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), SYNC_TIMEOUT_MS);
+  let body: any;
+  try {
+    const res = await fetch(config.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}) },
+      body: JSON.stringify({
+        device: store.device,
+        since: config.cursor,
+        changes: outgoing.map(({ store: name, key, updatedAt, device, deleted }): SyncRecord =>
+          deleted ? { store: name, key, updatedAt, device, deleted } : { store: name, key, updatedAt, device, value: values.get(`${name}:${key}`) }
+        ),
+      }),
+      signal: ctrl.signal,
+    });
+    if (!res.ok) throw new Error(res.status === 401 ? "token rechazado por el servidor" : `el servidor respondió ${res.status}`);
+    body = await res.json();
+  } finally {
+    clearTimeout(timer);
+  }
+  if (!isRecord(body) || !Number.isFinite(body.cursor) || !Array.isArray(body.changes)) throw new Error("respuesta inválida del servidor");
+
+  const remote = (body.changes as SyncRecord[]).filter(
+    (r) =>
+      isRecord(r) &&
+      SYNCED_STORES.includes(r.store) &&
+      typeof r.key === "string" &&
+      Number.isFinite(r.updatedAt) &&
+      typeof r.device === "string" &&
+      (r.deleted || BACKUP_VALIDATORS[r.store](r.value))
+  );
+
+  // Decided against the stamps as they are now, not as they were before the request: a record edited here meanwhile
+  // has a newer stamp and keeps the edit (it goes out on the next sync)
+  const changes: SyncChanges = {};
+  await enqueue(
+    store,
+    () =>
+      new Promise<void>((resolve, reject) => {
+        const tx = store.db.transaction("sync", "readwrite");
+        const os = tx.objectStore("sync");
+        const req = os.getAll();
+        req.onsuccess = () => {
+          const current = new Map((req.result as SyncStamp[]).map((st) => [st.id, st]));
+          // pushed stamps become clean unless the record changed again meanwhile
+          for (const sent of outgoing) {
+            const cur = current.get(sent.id);
+            if (cur && !(cur.updatedAt === sent.updatedAt && cur.device === sent.device && !!cur.deleted === !!sent.deleted)) continue;
+            const clean = { ...sent, dirty: false };
+            os.put(clean);
+            current.set(sent.id, clean);
+          }
+          for (const r of remote) {
+            const id = `${r.store}:${r.key}`;
+            const local = current.get(id);
+            if (local && !syncWins(r, local)) continue;
+            const stamp: SyncStamp = { id, store: r.store, key: r.key, updatedAt: r.updatedAt, device: r.device, deleted: !!r.deleted, dirty: false };
+            os.put(stamp);
+            current.set(id, stamp);
+            const c = (changes[r.store] ??= { puts: [], deletes: [] });
+            if (r.deleted) c.deletes.push(r.key);
+            else c.puts.push([r.key, r.value]);
+            // saving it in memory writes the record again; it has to keep the server's stamp
+            if (!r.deleted || (local && !local.deleted)) store.incoming.set(id, stamp);
+          }
+        };
+        tx.oncomplete = () => resolve();
+        tx.onerror = tx.onabort = () => reject(tx.error);
+      })
+  );
+  const next = { ...config, cursor: body.cursor, lastSyncAt: Date.now() };
+  await putMeta(store.db, "sync", next);
+  return { changes, config: next };
+}
+
+// A new server has none of our records: everything goes out again on the next sync
+const resetSyncLog = (store: StorageHandle) =>
+  new Promise<void>((resolve, reject) => {
+    const tx = store.db.transaction("sync", "readwrite");
+    const req = tx.objectStore("sync").openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, dirty: true });
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () => reject(tx.error);
+  });
+
+// The in-memory list (or map) of one store with the server's changes applied
+function applySyncChanges<K extends StoreName>(name: K, prev: BackupData[K], change: { puts: [string, unknown][]; deletes: string[] }): BackupData[K] {
+  const cfg = STORES[name];
+  const map = new Map(cfg.entries(prev));
+  for (const key of change.deletes) map.delete(key);
+  for (const [key, value] of change.puts) map.set(key, value);
+  const next = cfg.fromRows([...map].map(([key, value]) => cfg.row(key, value)));
+  if (name === "transactions") next.sort(newestFirst);
+  return next;
+}
+
+// === Attachments (receipts, warranties) ===
+// Files live in their own store and are read on demand; a Tx only keeps { id, name, type, size } for each.
+// Rows are { id, type, thumb, bytes }, or with a PIN { id, sealed: { type, thumb }, bytes: Sealed }.
+// Files no movement points to are only removed on the next start, so undoing a delete brings them back.
+type AttachmentRef = { id: string; name: string; type: string; size: number };
+type AttachmentFile = { type: string; thumb: string | null; bytes: ArrayBuffer };
+type BackupFile = { id: string; type: string; thumb: string | null; base64: string };
+const ATTACHMENT_ACCEPT = "image/*,application/pdf";
+const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+const THUMB_SIZE = 96;
+
+async function attachmentRow(id: string, file: AttachmentFile, key: CryptoKey | null) {
+  if (!key) return { id, type: file.type, thumb: file.thumb, bytes: file.bytes };
+  return { id, sealed: await seal(key, { type: file.type, thumb: file.thumb }), bytes: await sealBytes(key, file.bytes) };
+}
+async function attachmentFromRow(row: any, key: CryptoKey | null, withBytes = true): Promise<AttachmentFile> {
+  if (!row.sealed) return row;
+  if (!key) throw new Error("los datos están cifrados");
+  const { type, thumb } = await unseal(key, row.sealed);
+  return { type, thumb, bytes: withBytes ? await unsealBytes(key, row.bytes) : new ArrayBuffer(0) };
+}
+function putAttachmentRows(store: StorageHandle, rows: unknown[], deletes: string[] = []) {
+  return new Promise<void>((resolve, reject) => {
+    const tx = store.db.transaction("attachments", "readwrite");
+    const os = tx.objectStore("attachments");
+    for (const row of rows) os.put(row);
+    for (const id of deletes) os.delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Small JPEG preview for images; other files get an icon instead
+async function makeThumb(blob: Blob): Promise<string | null> {
+  if (!blob.type.startsWith("image/")) return null;
+  try {
+    const img = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMB_SIZE / Math.max(img.width, img.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
+    canvas.getContext("2d")!.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL("image/jpeg", 0.7);
+  } catch {
+    return null;
+  }
+}
+
+async function saveAttachment(store: StorageHandle, file: File): Promise<AttachmentRef> {
+  const id = newId();
+  const type = file.type || "application/octet-stream";
+  const stored: AttachmentFile = { type, thumb: await makeThumb(file), bytes: await file.arrayBuffer() };
+  await enqueue(store, async () => putAttachmentRows(store, [await attachmentRow(id, stored, store.key)]));
+  return { id, name: file.name, type, size: file.size };
+}
+async function readAttachment(store: StorageHandle, id: string, withBytes = true): Promise<AttachmentFile | null> {
+  const row = await requestResult(store.db.transaction("attachments").objectStore("attachments").get(id));
+  return row ? attachmentFromRow(row, store.key, withBytes) : null;
+}
+async function sweepAttachments(store: StorageHandle, keep: Set<string>) {
+  const ids = await requestResult(store.db.transaction("attachments").objectStore("attachments").getAllKeys());
+  const orphans = ids.map(String).filter((id) => !keep.has(id));
+  if (orphans.length) await enqueue(store, () => putAttachmentRows(store, [], orphans));
+}
+
+const toBase64 = (bytes: ArrayBuffer) => {
+  const u8 = new Uint8Array(bytes);
+  let str = "";
+  for (let i = 0; i < u8.length; i += 0x8000) str += String.fromCharCode(...u8.subarray(i, i + 0x8000));
+  return btoa(str);
+};
+const fromBase64 = (str: string) => Uint8Array.from(atob(str), (c) => c.charCodeAt(0)).buffer;
+
+async function exportAttachments(store: StorageHandle, ids: string[]): Promise<BackupFile[]> {
+  const out: BackupFile[] = [];
+  for (const id of ids) {
+    const file = await readAttachment(store, id);
+    if (file) out.push({ id, type: file.type, thumb: file.thumb, base64: toBase64(file.bytes) });
+  }
+  return out;
+}
+async function importAttachments(store: StorageHandle, files: BackupFile[]) {
+  const rows = await Promise.all(files.map((f) => attachmentRow(f.id, { type: f.type, thumb: f.thumb, bytes: fromBase64(f.base64) }, store.key)));
+  if (rows.length) await enqueue(store, () => putAttachmentRows(store, rows));
+}
+const attachmentIds = (txs: Tx[]) => (txs || []).flatMap((t) => (t?.attachments || []).map((a) => a.id));
+
+// Preview (or file icon) that opens the file; the thumbnail is read from storage when shown. Files do not sync, so a
+// movement that came from another device can point at one this device does not have: the chip says so
+function AttachmentChip({ store, attachment, onRemove }: { store: StorageHandle; attachment: AttachmentRef; onRemove?: () => void }) {
+  const [thumb, setThumb] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+  useEffect(() => {
+    let alive = true;
+    readAttachment(store, attachment.id, false)
+      .then((f) => {
+        if (!alive) return;
+        setThumb(f?.thumb || null);
+        setMissing(!f);
+      })
+      .catch(() => undefined);
+    return () => {
+      alive = false;
+    };
+  }, [store, attachment.id]);
+  const open = async () => {
+    const file = await readAttachment(store, attachment.id).catch(() => null);
+    if (!file) {
+      alert(`"${attachment.name}" no está en este dispositivo: los adjuntos no se sincronizan. Ábrelo en el dispositivo donde se agregó.`);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([file.bytes], { type: file.type }));
+    window.open(url, "_blank");
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+  return (
+    <span style={{ position: "relative", display: "inline-block" }}>
+      <button
+        title={missing ? `${attachment.name} (no está en este dispositivo)` : attachment.name}
+        onClick={open}
+        style={{ width: 40, height: 40, padding: 0, borderRadius: 8, overflow: "hidden", background: "#FAFEFF", opacity: missing ? 0.5 : 1 }}
+      >
+        {thumb ? <img src={thumb} alt={attachment.name} style={{ width: "100%", height: "100%", objectFit: "cover" }} /> : missing ? "⚠️" : "📄"}
+      </button>
+      {onRemove && (
+        <button
+          aria-label="Quitar adjunto"
+          onClick={onRemove}
+          style={{ position: "absolute", top: -6, right: -6, width: 20, height: 20, padding: 0, borderRadius: 10, fontSize: 11 }}
+        >
+          ✕
+        </button>
+      )}
+    </span>
+  );
 }
-function ensureCategories(current: Category[]): Category[] {
-  const have = new Set(current.map((c) => c.id));
-  let changed = false;
-  for (const c of defaultCategories) {
-    if (!have.has(c.id)) {
-      current.push(c);
-      changed = true;
+
+// Camera (on phones) or file picker; files are stored right away and handed back as references
+function AttachmentPicker({ store, onAdd, compact }: { store: StorageHandle; onAdd: (refs: AttachmentRef[]) => void; compact?: boolean }) {
+  const add = async (list: FileList | null) => {
+    const files = [...(list || [])];
+    const tooBig = files.filter((f) => f.size > ATTACHMENT_MAX_BYTES);
+    if (tooBig.length) alert(`${tooBig.map((f) => f.name).join(", ")}: supera los ${ATTACHMENT_MAX_BYTES / 1024 / 1024} MB`);
+    const ok = files.filter((f) => f.size <= ATTACHMENT_MAX_BYTES && (f.type.startsWith("image/") || f.type === "application/pdf"));
+    if (!ok.length) return;
+    try {
+      onAdd(await Promise.all(ok.map((f) => saveAttachment(store, f))));
+    } catch (err) {
+      alert(`No se pudo guardar el adjunto: ${storageErrorMessage(err)}`);
     }
+  };
+  const input = (accept: string, capture: boolean) => (
+    <input
+      type="file"
+      accept={accept}
+      multiple={!capture}
+      {...(capture ? { capture: "environment" as const } : {})}
+      style={{ display: "none" }}
+      onChange={(e) => {
+        add(e.target.files);
+        e.target.value = "";
+      }}
+    />
+  );
+  return (
+    <span style={{ display: "inline-flex", gap: 8 }}>
+      <label style={{ cursor: "pointer" }} title="Tomar foto">
+        📷{compact ? "" : " Foto"}
+        {input("image/*", true)}
+      </label>
+      <label style={{ cursor: "pointer" }} title="Adjuntar archivo">
+        📎{compact ? "" : " Archivo"}
+        {input(ATTACHMENT_ACCEPT, false)}
+      </label>
+    </span>
+  );
+}
+
+// === Category helpers ===
+function categoryPath(categories: Category[], id: string | null) {
+  const c = categories.find((x) => x.id === id);
+  if (!c) return null;
+  const parent = c.parentId ? categories.find((x) => x.id === c.parentId) : null;
+  return parent ? `${parent.name} › ${c.name}` : c.name;
+}
+function categoryLabel(categories: Category[], id: string | null) {
+  const c = categories.find((x) => x.id === id);
+  return c ? `${c.icon || ""} ${categoryPath(categories, id)}`.trim() : null;
+}
+// Parents first, each followed by its children
+function categoryTree(categories: Category[], kind: Category["kind"]) {
+  const ofKind = categories.filter((c) => c.kind === kind);
+  const roots = ofKind.filter((c) => !c.parentId || !ofKind.some((p) => p.id === c.parentId));
+  const out: { category: Category; depth: number }[] = [];
+  for (const r of roots) {
+    out.push({ category: r, depth: 0 });
+    for (const ch of ofKind.filter((c) => c.parentId === r.id)) out.push({ category: ch, depth: 1 });
   }
-  return changed ? [...current] : current;
+  return out;
+}
+function rootCategoryId(categories: Category[], id: string | null) {
+  const c = categories.find((x) => x.id === id);
+  if (!c) return null;
+  return c.parentId && categories.some((x) => x.id === c.parentId) ? c.parentId : c.id;
 }
 
 // === Calculations ===
@@ -140,9 +911,44 @@ type Tx = {
   note: string | null;
   createdAt: number;
   updatedAt: number;
+  recurringId?: string; // rule that generated it
+  installments?: number; // GASTO on CREDIT: number of cuotas (1-36)
+  importRef?: string; // statement line it came from ("ofx:<account>:<FITID>"), so re-imports are skipped
+  amountToCents?: number; // TRANSFERENCIA between currencies: amount received, in the destination's currency
+  originalCurrency?: string; // paid in another currency than the account's (e.g. a USD subscription on a COP card)
+  originalAmountCents?: number;
+  cleared?: boolean; // seen on the bank statement
+  reconciled?: boolean; // part of a finished reconciliation: locked against edits
+  splits?: TxSplit[]; // GASTO divided among categories; lines add up to amountCents and categoryId is the first line's
+  payeeId?: string | null; // who was paid or paid us (Éxito, the landlord, …)
+  tags?: string[]; // free-form labels that cut across categories ("viaje diciembre")
+  attachments?: AttachmentRef[]; // receipts and warranties; the files themselves are in the attachments store
+  goalId?: string | null; // TRANSFERENCIA: savings goal the money goes to (or comes back from)
+  loanId?: string | null; // GASTO / INGRESO: loan given, received or repaid; not spending nor income
 };
+type TxSplit = { categoryId: string | null; amountCents: number; note: string | null };
+
+// Per-category parts of `cents` (the expense or one of its cuotas, maybe converted): split lines share it
+// in proportion, with the rounding left on the last one
+function txCategoryParts(t: Tx, cents: number) {
+  if (!t.splits?.length) return [{ categoryId: t.categoryId, amountCents: cents }];
+  const total = t.splits.reduce((acc, l) => acc + l.amountCents, 0) || 1;
+  let left = cents;
+  return t.splits.map((l, i) => {
+    const part = i === t.splits!.length - 1 ? left : Math.round((cents * l.amountCents) / total);
+    left -= part;
+    return { categoryId: l.categoryId, amountCents: part };
+  });
+}
+
+// amountCents is in the currency of the account it leaves (GASTO, TRANSFERENCIA) or enters (INGRESO)
+const accountCurrency = (a?: Account | null) => a?.currency || DEFAULT_CURRENCY;
+const txCurrency = (accounts: Account[], t: Pick<Tx, "type" | "accountFromId" | "accountToId">) =>
+  accountCurrency(accounts.find((a) => a.id === (t.type === "INGRESO" ? t.accountToId : t.accountFromId)));
+const receivedCents = (t: Tx) => Number(t.amountToCents ?? t.amountCents);
 
-function computeBalances(accounts: Account[], txs: Tx[]) {
+// Balances at the end of `asOf` ("YYYY-MM-DD") when given, otherwise with every movement
+function computeBalances(accounts: Account[], txs: Tx[], asOf?: string) {
   const ef: Record<string, number> = {};
   const debt: Record<string, number> = {};
   accounts.forEach((a) => {
@@ -152,11 +958,14 @@ function computeBalances(accounts: Account[], txs: Tx[]) {
 
   for (const t of txs || []) {
     if (!t || typeof t !== "object") continue;
+    if (asOf && t.date > asOf) continue;
     const amount = Number(t.amountCents || 0);
     if (!amount) continue;
 
     if (t.type === "INGRESO") {
+      // into a card it is a refund (or a reconciliation adjustment) and lowers the debt
       if (t.accountToId && t.accountToId in ef) ef[t.accountToId] += amount;
+      else if (t.accountToId && t.accountToId in debt) debt[t.accountToId] -= amount;
     } else if (t.type === "GASTO") {
       const from = accounts.find((a) => a.id === t.accountFromId);
       if (!from) continue;
@@ -170,11 +979,11 @@ function computeBalances(accounts: Account[], txs: Tx[]) {
       const to = accounts.find((a) => a.id === t.accountToId);
       if (!from || !to || from.id === to.id) continue;
       if (to.type === ACCOUNT_TYPES.CREDIT) {
-        debt[to.id] = (debt[to.id] || 0) - amount;
+        debt[to.id] = (debt[to.id] || 0) - receivedCents(t);
         if (from.type === ACCOUNT_TYPES.CASH) ef[from.id] = (ef[from.id] || 0) - amount;
       } else if (from.type === ACCOUNT_TYPES.CASH && to.type === ACCOUNT_TYPES.CASH) {
         ef[from.id] = (ef[from.id] || 0) - amount;
-        ef[to.id] = (ef[to.id] || 0) + amount;
+        ef[to.id] = (ef[to.id] || 0) + receivedCents(t);
       }
     }
   }
@@ -193,153 +1002,4450 @@ function computeBalances(accounts: Account[], txs: Tx[]) {
   return { accounts: perAccount, efectivoTotal, creditoDisponibleTotal };
 }
 
-function monthKey(dateStr: string) {
-  const d = new Date(dateStr);
-  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+// === Currencies / exchange rates ===
+type FxRate = { id: string; from: string; to: string; rate: number; date: string }; // 1 `from` = `rate` `to`
+type Settings = { baseCurrency: string; reportViews?: ReportView[] };
+const defaultSettings: Settings = { baseCurrency: DEFAULT_CURRENCY };
+
+// The rate in effect on `date` (latest on or before it, else the oldest after it), direct or inverted
+function directRate(rates: FxRate[], from: string, to: string, date: string) {
+  let best: { rate: number; date: string } | null = null;
+  for (const r of rates) {
+    const rate = r.from === from && r.to === to ? r.rate : r.from === to && r.to === from ? 1 / r.rate : null;
+    if (!rate || !isFinite(rate)) continue;
+    const better = !best || (r.date <= date ? best.date > date || r.date > best.date : best.date > date && r.date < best.date);
+    if (better) best = { rate, date: r.date };
+  }
+  return best?.rate ?? null;
+}
+// Falls back to going through one other currency (COP → USD → EUR)
+function fxRate(rates: FxRate[], from: string, to: string, date = todayStr()): number | null {
+  if (from === to) return 1;
+  const direct = directRate(rates, from, to, date);
+  if (direct) return direct;
+  for (const via of new Set(rates.flatMap((r) => [r.from, r.to]))) {
+    if (via === from || via === to) continue;
+    const a = directRate(rates, from, via, date);
+    const b = a && directRate(rates, via, to, date);
+    if (a && b) return a * b;
+  }
+  return null;
+}
+const fmtRate = (rate: number) => rate.toLocaleString("es-CO", { maximumFractionDigits: 6 });
+function convertCents(cents: number, from: string, to: string, rates: FxRate[], date?: string) {
+  const rate = fxRate(rates, from, to, date);
+  return rate == null ? null : Math.round(cents * rate);
 }
 
-// === CSV ===
-function buildCSV(txs: Tx[]) {
-  const header = "id,type,date,amountCents,accountFromId,accountToId,categoryId,paymentMethod,note";
-  const rows = (txs || []).map((t) =>
-    [
-      t.id,
-      t.type,
-      t.date,
-      t.amountCents,
-      t.accountFromId || "",
-      t.accountToId || "",
-      t.categoryId || "",
-      t.paymentMethod || "",
-      (t.note || "").replace(/,/g, ";"),
-    ].join(",")
-  );
-  return [header, ...rows].join("\n");
+// Movements with amounts in `currency`, at the rate of their date; those without a rate are left out and reported
+function txsInCurrency(txs: Tx[], accounts: Account[], rates: FxRate[], currency: string) {
+  const missing = new Set<string>();
+  const out: Tx[] = [];
+  for (const t of txs || []) {
+    const from = txCurrency(accounts, t);
+    if (from === currency) {
+      out.push(t);
+      continue;
+    }
+    const amountCents = convertCents(t.amountCents, from, currency, rates, t.date);
+    if (amountCents == null) missing.add(from);
+    else out.push({ ...t, amountCents, amountToCents: undefined });
+  }
+  return { txs: out, missing: [...missing] };
 }
-function parseCSV(text: string): Tx[] {
-  const clean = (text || "").replace(/\r/g, "");
-  const lines = clean.split("\n").filter(Boolean);
-  if (lines.length <= 1) return [];
-  return lines.slice(1).map((line) => {
-    const [id, type, date, amountCents, accountFromId, accountToId, categoryId, paymentMethod, note] = line.split(",");
-    return {
-      id: id || crypto.randomUUID?.() || String(Math.random()),
-      type: (type as any) || "GASTO",
-      date: date || todayStr(),
-      amountCents: Number(amountCents || 0),
-      accountFromId: accountFromId || null,
-      accountToId: accountToId || null,
-      categoryId: categoryId || null,
-      paymentMethod: paymentMethod || null,
-      note: note || null,
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-    };
+
+const parseRate = (raw: string) => {
+  let str = (raw || "").trim().replace(/\s/g, "");
+  // the last separator is the decimal one
+  if (str.includes(",") && str.includes("."))
+    str = str.lastIndexOf(",") > str.lastIndexOf(".") ? str.replace(/\./g, "").replace(",", ".") : str.replace(/,/g, "");
+  else str = str.replace(",", ".");
+  const n = Number(str);
+  return str && isFinite(n) && n > 0 ? n : null;
+};
+// CSV (from, to, rate[, date]; header optional) or a JSON array of { from, to, rate, date }
+function parseRatesFile(text: string): { rates: FxRate[]; errors: string[] } {
+  const errors: string[] = [];
+  let rows: string[][];
+  try {
+    const json = JSON.parse(text);
+    rows = (Array.isArray(json) ? json : []).map((r: any) => [r?.from, r?.to, String(r?.rate ?? ""), r?.date || ""]);
+  } catch {
+    rows = parseDelimited(text, detectSeparator(text)).filter((r) => r.some((c) => c.trim()));
+    if (rows[0] && parseRate(rows[0][2]) == null) rows = rows.slice(1); // header
+  }
+  const rates: FxRate[] = [];
+  rows.forEach((r, i) => {
+    const [from, to] = [r[0], r[1]].map((c) =>
+      String(c || "")
+        .trim()
+        .toUpperCase()
+    );
+    const rate = parseRate(String(r[2] || ""));
+    const date = r[3] ? parseDateStr(String(r[3]), "YMD") : todayStr();
+    if (!/^[A-Z]{3}$/.test(from) || !/^[A-Z]{3}$/.test(to) || from === to) errors.push(`Fila ${i + 1}: monedas inválidas`);
+    else if (!rate) errors.push(`Fila ${i + 1}: tasa inválida`);
+    else if (!date) errors.push(`Fila ${i + 1}: fecha inválida`);
+    else rates.push({ id: newId(), from, to, rate, date });
   });
+  if (!rows.length) errors.push("El archivo no tiene tasas");
+  return { rates, errors };
 }
 
-// === Error boundary to avoid blank screen ===
-class ErrorBoundary extends React.Component<{ children: any }, { hasError: boolean; msg: string }> {
-  constructor(props: any) {
-    super(props);
-    this.state = { hasError: false, msg: "" };
+// === Investments ===
+// Transfers in and out of an investment account are contributions and withdrawals; everything else that moves
+// its balance (rendimientos, fees) and the gap to the latest valuation is the return.
+const INVESTMENT_KINDS: Record<InvestmentKind, string> = { CDT: "CDT", FONDO: "Fondo de inversión", ACCIONES: "Acciones", OTRA: "Otra inversión" };
+type InvestmentFlow = { date: string; cents: number }; // + contribution, - withdrawal
+const fmtPct = (ratio: number | null) => (ratio == null ? "—" : `${(ratio * 100).toLocaleString("es-CO", { maximumFractionDigits: 2 })} %`);
+
+function investmentFlows(account: Account, txs: Tx[], valuations: Valuation[], asOf = todayStr()) {
+  const flows: InvestmentFlow[] = [];
+  for (const t of txs || []) {
+    if (!t || t.type !== "TRANSFERENCIA" || t.date > asOf || t.accountFromId === t.accountToId) continue;
+    if (t.accountToId === account.id) flows.push({ date: t.date, cents: receivedCents(t) });
+    else if (t.accountFromId === account.id) flows.push({ date: t.date, cents: -t.amountCents });
   }
-  static getDerivedStateFromError(error: any) {
-    return { hasError: true, msg: String(error?.message || error) };
+  if (account.initialBalanceCents) {
+    const dates = [...flows.map((f) => f.date), ...valuations.filter((v) => v.accountId === account.id).map((v) => v.date)];
+    const first = account.investment?.openDate || dates.reduce((a, b) => (a < b ? a : b), asOf);
+    flows.push({ date: first, cents: account.initialBalanceCents });
   }
-  componentDidCatch(error: any, info: any) {
-    console.error("UI error:", error, info);
+  return flows.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Latest valuation on or before `asOf`, moved by whatever happened to the balance since; null when never valued
+function investmentValueAt(accounts: Account[], account: Account, txs: Tx[], valuations: Valuation[], asOf: string) {
+  const last = valuations
+    .filter((v) => v.accountId === account.id && v.date <= asOf)
+    .reduce<Valuation | null>((a, b) => (!a || b.date >= a.date ? b : a), null);
+  if (!last) return null;
+  const balanceAt = (d: string) => computeBalances(accounts, txs, d).accounts.find((s) => s.account.id === account.id)?.balanceCents || 0;
+  return last.valueCents + balanceAt(asOf) - balanceAt(last.date);
+}
+
+// Annualized internal rate of return of dated cash flows (investor's view: money in is negative), by bisection
+function xirr(flows: InvestmentFlow[]) {
+  if (!flows.some((f) => f.cents > 0) || !flows.some((f) => f.cents < 0)) return null;
+  const start = flows.reduce((a, f) => (f.date < a ? f.date : a), flows[0].date);
+  const npv = (r: number) => flows.reduce((acc, f) => acc + f.cents / Math.pow(1 + r, daysBetween(start, f.date) / 365), 0);
+  let lo = -0.9999;
+  let hi = 1000;
+  if (Math.sign(npv(lo)) === Math.sign(npv(hi))) return null;
+  for (let i = 0; i < 200 && hi - lo > 1e-9; i++) {
+    const mid = (lo + hi) / 2;
+    if (Math.sign(npv(mid)) === Math.sign(npv(lo))) lo = mid;
+    else hi = mid;
   }
-  render() {
-    if (this.state.hasError) {
-      return (
-        <div style={{ padding: 16, color: "#333" }}>
-          <h3>Ups, algo salió mal.</h3>
-          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>Detalle: {this.state.msg}</div>
-          <button
-            style={{ marginTop: 12 }}
-            onClick={() => {
-              this.setState({ hasError: false, msg: "" });
-              location.reload();
-            }}
-          >
-            Recargar
-          </button>
-        </div>
-      );
-    }
-    return this.props.children;
+  return (lo + hi) / 2;
+}
+
+function investmentSummary(accounts: Account[], account: Account, txs: Tx[], valuations: Valuation[], today = todayStr()) {
+  const flows = investmentFlows(account, txs, valuations, today);
+  const contributedCents = flows.filter((f) => f.cents > 0).reduce((acc, f) => acc + f.cents, 0);
+  const withdrawnCents = flows.filter((f) => f.cents < 0).reduce((acc, f) => acc - f.cents, 0);
+  const valued = investmentValueAt(accounts, account, txs, valuations, today);
+  const valueCents = valued ?? (computeBalances(accounts, txs, today).accounts.find((s) => s.account.id === account.id)?.balanceCents || 0);
+  const gainCents = valueCents + withdrawnCents - contributedCents;
+  const info = account.investment;
+  let cdt: { maturityDate: string; daysLeft: number; expectedInterestCents: number; maturityValueCents: number } | null = null;
+  if (info?.kind === "CDT" && info.maturityDate && info.annualRatePct) {
+    const principal = contributedCents - withdrawnCents;
+    const open = info.openDate || flows[0]?.date || today;
+    const expectedInterestCents = Math.round(principal * (Math.pow(1 + info.annualRatePct / 100, Math.max(0, daysBetween(open, info.maturityDate)) / 365) - 1));
+    cdt = {
+      maturityDate: info.maturityDate,
+      daysLeft: daysBetween(today, info.maturityDate),
+      expectedInterestCents,
+      maturityValueCents: principal + expectedInterestCents,
+    };
   }
+  return {
+    valueCents,
+    valued: valued != null,
+    contributedCents,
+    withdrawnCents,
+    gainCents,
+    simpleReturn: contributedCents ? gainCents / contributedCents : null,
+    annualReturn: xirr([...flows.map((f) => ({ date: f.date, cents: -f.cents })), { date: today, cents: valueCents }]),
+    cdt,
+  };
 }
 
-// === App ===
-export default function App() {
-  // State
-  const [accountsRaw, setAccounts] = useLocalState<Account[]>(LS_KEYS.ACCOUNTS, defaultAccounts);
-  const [categoriesRaw, setCategories] = useLocalState<Category[]>(LS_KEYS.CATEGORIES, defaultCategories);
-  const [txs, setTxs] = useLocalState<Tx[]>(LS_KEYS.TXS, []);
-  const [tab, setTab] = useState<"dashboard" | "reportes">("dashboard");
+// === Net worth ===
+// Cash and investment accounts minus card debt, each converted to `currency` at the rate of `date`.
+// Accounts with valuations count at their market value instead of the book balance.
+function netWorthAt(accounts: Account[], txs: Tx[], rates: FxRate[], currency: string, date: string, valuations: Valuation[] = []) {
+  const missing = new Set<string>();
+  let totalCents = 0;
+  const perAccount = computeBalances(accounts, txs, date).accounts.map((s) => {
+    const balanceCents = investmentValueAt(accounts, s.account, txs, valuations, date) ?? s.balanceCents;
+    const cents = convertCents(balanceCents, accountCurrency(s.account), currency, rates, date);
+    if (cents == null) missing.add(accountCurrency(s.account));
+    else totalCents += cents;
+    return { account: s.account, balanceCents, convertedCents: cents };
+  });
+  return { totalCents, perAccount, missing: [...missing] };
+}
 
-  // Migrations / safety
-  useEffect(() => {
-    const fixedA = ensureAccounts(Array.isArray(accountsRaw) ? accountsRaw : []);
-    if (fixedA !== accountsRaw) setAccounts(fixedA);
-    const fixedC = ensureCategories(Array.isArray(categoriesRaw) ? categoriesRaw : []);
-    if (fixedC !== categoriesRaw) setCategories(fixedC);
-  }, []); // eslint-disable-line
+// Month-end snapshots from the first movement's month to the current one (today for the current month).
+// Archived accounts are included: they may have held money back then.
+function netWorthHistory(accounts: Account[], txs: Tx[], rates: FxRate[], currency: string, valuations: Valuation[] = []) {
+  const dates = (txs || []).filter((t) => t && t.date).map((t) => t.date);
+  if (!dates.length) return { points: [], missing: [] as string[] };
+  const today = todayStr();
+  const missing = new Set<string>();
+  const points = [];
+  for (let m = monthKey(dates.reduce((a, b) => (a < b ? a : b))); m <= monthKey(today); m = addMonths(m, 1)) {
+    const end = addDays(`${addMonths(m, 1)}-01`, -1);
+    const snap = netWorthAt(accounts, txs, rates, currency, end < today ? end : today, valuations);
+    snap.missing.forEach((c) => missing.add(c));
+    const point: Record<string, number | string> = { name: m, total: snap.totalCents };
+    for (const a of snap.perAccount) if (a.convertedCents) point[a.account.id] = a.convertedCents;
+    points.push(point);
+  }
+  return { points, missing: [...missing] };
+}
 
-  const accounts = ensureAccounts(accountsRaw || []);
-  const categories = ensureCategories(categoriesRaw || []);
+// === Credit card statements ===
+type Statement = {
+  closeDate: string;
+  dueDate: string;
+  balanceCents: number; // debt at close
+  paidCents: number; // payments made after the close, applied to this statement
+  paidByDueCents: number;
+  interestCents: number; // estimated, when not fully paid by the due date
+  minimumCents: number; // cuotas billed at this close plus a share of the revolving balance
+};
 
-  // Form
-  const [form, setForm] = useState<any>({
-    type: "TRANSFERENCIA",
-    date: todayStr(),
-    amount: "0",
-    accountFromId: "visa",
-    accountToId: "ahorros",
-    paymentMethod: "VISA",
-    categoryId: null,
-    note: "",
+function dayInMonth(month: string, day: number) {
+  const [y, m] = month.split("-").map(Number);
+  const last = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  return `${month}-${String(Math.min(day, last)).padStart(2, "0")}`;
+}
+function dueDateFor(closeDate: string, statementDay: number, dueDay: number) {
+  const month = monthKey(closeDate);
+  return dayInMonth(dueDay > statementDay ? month : addMonths(month, 1), dueDay);
+}
+function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+}
+
+function creditStatements(account: Account, txs: Tx[], today = todayStr()) {
+  if (account.type !== ACCOUNT_TYPES.CREDIT || !account.statementDay || !account.dueDay) return null;
+  const { statementDay, dueDay } = account;
+  const rate = (account.monthlyRatePct || 0) / 100;
+  // Same movements computeBalances counts as debt: charges, and payments or refunds into the card
+  const moves = (txs || [])
+    .filter(
+      (t) =>
+        t &&
+        Number(t.amountCents) > 0 &&
+        ((t.type === "GASTO" && t.accountFromId === account.id) ||
+          (t.type === "INGRESO" && t.accountToId === account.id) ||
+          (t.type === "TRANSFERENCIA" && t.accountToId === account.id && t.accountFromId !== account.id))
+    )
+    .map((t) => ({ date: t.date, cents: t.type === "GASTO" ? Number(t.amountCents) : t.type === "INGRESO" ? -Number(t.amountCents) : -receivedCents(t) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const payments = moves.filter((m) => m.cents < 0);
+  const cuotas = (txs || []).filter((t) => t && t.type === "GASTO" && t.accountFromId === account.id).flatMap((t) => installmentSchedule(t, account));
+  const sumPayments = (after: string, until: string) => payments.filter((p) => p.date > after && p.date <= until).reduce((acc, p) => acc - p.cents, 0);
+
+  const closes: string[] = [];
+  for (let m = monthKey(moves[0]?.date || today); ; m = addMonths(m, 1)) {
+    const c = dayInMonth(m, statementDay);
+    if (c > today) break;
+    closes.push(c);
+  }
+
+  const statements: Statement[] = closes.map((closeDate, i) => {
+    const dueDate = dueDateFor(closeDate, statementDay, dueDay);
+    const debt = (account.initialDebtCents || 0) + moves.filter((m) => m.date <= closeDate).reduce((acc, m) => acc + m.cents, 0);
+    const balanceCents = Math.max(0, debt);
+    const paidCents = sumPayments(closeDate, closes[i + 1] || today);
+    const paidByDueCents = sumPayments(closeDate, dueDate);
+    const unpaid = balanceCents - paidByDueCents;
+    const interestCents = today > dueDate && unpaid > 0 ? Math.round(unpaid * rate) : 0;
+    // Installment principal not yet billed is part of the debt but not of the minimum
+    const billed = cuotas.filter((q) => q.date === closeDate && q.of > 1).reduce((acc, q) => acc + q.principalCents + q.interestCents, 0);
+    const planOutstanding = cuotas.filter((q) => q.date >= closeDate && q.of > 1).reduce((acc, q) => acc + q.principalCents, 0);
+    const revolving = Math.max(0, balanceCents - planOutstanding);
+    const minimumCents = Math.min(balanceCents, billed + Math.round((revolving * (account.minPaymentPct ?? 5)) / 100));
+    return { closeDate, dueDate, balanceCents, paidCents, paidByDueCents, interestCents, minimumCents };
   });
-  const onChange = (k: string, v: any) => setForm((f: any) => ({ ...f, [k]: v }));
 
-  useEffect(() => {
-    if (form.type !== "GASTO") return;
-    const pm = PAYMENT_METHODS.find((m) => m.id === form.paymentMethod);
-    if (!pm) return;
-    const target = accounts.find((a) => a.name.includes(pm.accountName));
-    if (target && form.accountFromId !== target.id) setForm((f: any) => ({ ...f, accountFromId: target.id }));
-  }, [form.paymentMethod, form.type, accounts]);
+  const last = statements[statements.length - 1] || null;
+  const remainingCents = last ? Math.max(0, last.balanceCents - last.paidCents) : 0;
+  const minimumCents = last ? Math.min(remainingCents, Math.max(0, last.minimumCents - last.paidCents)) : 0;
+  const nextClose = dayInMonth(last ? addMonths(monthKey(last.closeDate), 1) : monthKey(today), statementDay);
+  const currentChargesCents = moves.filter((m) => m.cents > 0 && (!last || m.date > last.closeDate)).reduce((acc, m) => acc + m.cents, 0);
+  return {
+    statements,
+    last,
+    remainingCents,
+    minimumCents,
+    daysToDue: last ? daysBetween(today, last.dueDate) : null,
+    projectedInterestCents: Math.round(remainingCents * rate),
+    nextClose,
+    currentChargesCents,
+  };
+}
 
-  useEffect(() => {
-    if (form.type === "TRANSFERENCIA") {
-      if (form.categoryId) setForm((f: any) => ({ ...f, categoryId: null }));
-      return;
-    }
-    const allowed = categories.filter((c) => (form.type === "GASTO" && c.kind === "GASTO") || (form.type === "INGRESO" && c.kind === "INGRESO"));
-    if (!allowed.some((c) => c.id === form.categoryId)) {
-      const first = allowed[0]?.id || null;
-      setForm((f: any) => ({ ...f, categoryId: first }));
-    }
-  }, [form.type, categories]);
+// === Installment purchases (compras a cuotas) ===
+type Cuota = { n: number; of: number; date: string; principalCents: number; interestCents: number };
 
-  const isIngreso = form.type === "INGRESO";
-  const isGasto = form.type === "GASTO";
-  const isTransf = form.type === "TRANSFERENCIA";
+// Cuota k is billed at the k-th statement close on or after the purchase (monthly from the purchase date without a cycle)
+function installmentSchedule(t: Tx, account: Account | undefined): Cuota[] {
+  const of = Math.max(1, Math.min(36, Math.round(t.installments || 1)));
+  const amount = Number(t.amountCents || 0);
+  const base = Math.floor(amount / of);
+  // A single cuota carries no interest
+  const rate = of > 1 ? (account?.monthlyRatePct || 0) / 100 : 0;
+  const day = account?.type === ACCOUNT_TYPES.CREDIT ? account.statementDay : undefined;
+  let firstMonth = monthKey(t.date);
+  if (day && dayInMonth(firstMonth, day) < t.date) firstMonth = addMonths(firstMonth, 1);
+  const out: Cuota[] = [];
+  for (let k = 0; k < of; k++) {
+    out.push({
+      n: k + 1,
+      of,
+      date: day ? dayInMonth(addMonths(firstMonth, k), day) : addMonthsToDate(t.date, k),
+      principalCents: k === of - 1 ? amount - base * (of - 1) : base,
+      interestCents: Math.round((amount - base * k) * rate),
+    });
+  }
+  return out;
+}
 
-  const summary = useMemo(() => computeBalances(accounts, txs), [accounts, txs]);
+function installmentPlans(accounts: Account[], txs: Tx[], today = todayStr()) {
+  // every plan on a card shares the card's statements: computed once per card
+  const cycles = new Map<string, ReturnType<typeof creditStatements>>();
+  const cycleOf = (account: Account) => {
+    if (!cycles.has(account.id)) cycles.set(account.id, creditStatements(account, txs, today));
+    return cycles.get(account.id)!;
+  };
+  return (txs || [])
+    .filter((t) => t && t.type === "GASTO" && (t.installments || 1) > 1)
+    .map((t) => {
+      const account = accounts.find((a) => a.id === t.accountFromId);
+      if (!account || account.type !== ACCOUNT_TYPES.CREDIT) return null;
+      const schedule = installmentSchedule(t, account);
+      const cycle = cycleOf(account);
+      // A cuota is paid once its statement received at least the minimum payment
+      const isPaid = (q: Cuota) => {
+        if (!cycle) return q.date <= today;
+        const st = cycle.statements.find((x) => x.closeDate === q.date);
+        return !!st && st.paidCents >= st.minimumCents;
+      };
+      const paid = schedule.filter(isPaid);
+      const next = schedule.find((q) => !isPaid(q)) || null;
+      return {
+        tx: t,
+        account,
+        schedule,
+        billedCount: schedule.filter((q) => q.date <= today).length,
+        paidCount: paid.length,
+        remainingCents: schedule.filter((q) => !isPaid(q)).reduce((acc, q) => acc + q.principalCents, 0),
+        interestCents: schedule.reduce((acc, q) => acc + q.interestCents, 0),
+        next,
+      };
+    })
+    .filter((p): p is NonNullable<typeof p> => !!p);
+}
 
-  // Liquidez total (solo cuentas CASH seleccionadas)
-  const liquidezIds = ["daviplata", "nequi", "empresa", "efectivo", "ahorros"];
-  const liquidezCents = useMemo(() => {
-    let total = 0;
-    for (const id of liquidezIds) {
-      const s = summary.accounts.find((x) => x.account.id === id);
-      if (s) total += s.balanceCents;
-    }
-    return total;
-  }, [summary]);
+function monthKey(dateStr: string) {
+  // "YYYY-MM-DD" parses as UTC midnight, which lands on the previous month west of UTC
+  if (/^\d{4}-\d{2}/.test(dateStr)) return dateStr.slice(0, 7);
+  const d = new Date(dateStr);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+function addMonths(month: string, n: number) {
+  const [y, m] = month.split("-").map(Number);
+  const d = new Date(y, m - 1 + n, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+// Day arithmetic on "YYYY-MM-DD" strings, in UTC so no timezone shifts creep in
+function addDays(dateStr: string, n: number) {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + n)).toISOString().slice(0, 10);
+}
+function addMonthsToDate(dateStr: string, n: number) {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(y, m - 1 + n + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m - 1 + n, Math.min(d, lastDay))).toISOString().slice(0, 10);
+}
+
+// Expense amounts per category; the single source for category reports and budgets.
+// "CUOTA" spreads installment purchases over the dates each cuota is billed. Loan movements are left out.
+type SpendBasis = "COMPRA" | "CUOTA";
+function gastoLines(txs: Tx[], basis: SpendBasis = "COMPRA", accounts: Account[] = []) {
+  return (txs || [])
+    .filter((t) => t && t.type === "GASTO" && !t.loanId)
+    .flatMap((t) => {
+      const account = accounts.find((a) => a.id === t.accountFromId);
+      if (basis === "CUOTA" && (t.installments || 1) > 1 && account?.type === ACCOUNT_TYPES.CREDIT) {
+        return installmentSchedule(t, account).flatMap((q) => txCategoryParts(t, q.principalCents).map((p) => ({ tx: t, date: q.date, ...p })));
+      }
+      return txCategoryParts(t, Number(t.amountCents || 0)).map((p) => ({ tx: t, date: t.date, ...p }));
+    });
+}
+
+// === Report series ===
+// Income adds and expenses (per spend basis) subtract; transfers only move money between own accounts
+type FlowLine = { date: string; amountCents: number };
+function cashFlowLines(txs: Tx[], basis: SpendBasis, accounts: Account[]): FlowLine[] {
+  const income = (txs || []).filter((t) => t && t.type === "INGRESO" && !t.loanId).map((t) => ({ date: t.date, amountCents: Number(t.amountCents || 0) }));
+  const expenses = gastoLines(txs, basis, accounts).map((l) => ({ date: l.date, amountCents: -l.amountCents }));
+  return [...income, ...expenses];
+}
+
+// One entry per month, empty months included; `months` counts back from the current month, 0 spans all the data
+function monthlyFlow(lines: FlowLine[], months: number) {
+  const map: Record<string, { ingresos: number; gastos: number }> = {};
+  for (const l of lines) {
+    const entry = (map[monthKey(l.date)] ??= { ingresos: 0, gastos: 0 });
+    if (l.amountCents >= 0) entry.ingresos += l.amountCents;
+    else entry.gastos -= l.amountCents;
+  }
+  const keys = Object.keys(map).sort();
+  if (!keys.length && !months) return [];
+  const last = months ? monthKey(todayStr()) : keys[keys.length - 1];
+  const first = months ? addMonths(last, -(months - 1)) : keys[0];
+  const out = [];
+  for (let m = first; m <= last; m = addMonths(m, 1)) {
+    const { ingresos, gastos } = map[m] || { ingresos: 0, gastos: 0 };
+    out.push({ name: m, ingresos, gastos, neto: ingresos - gastos });
+  }
+  return out;
+}
+
+// Running total of the period's flow, one point per day with movements
+function cumulativeFlow(lines: FlowLine[]) {
+  const byDate: Record<string, number> = {};
+  for (const l of lines) byDate[l.date] = (byDate[l.date] || 0) + l.amountCents;
+  let total = 0;
+  return Object.keys(byDate)
+    .sort()
+    .map((date) => ({ date, saldo: (total += byDate[date]) }));
+}
+
+// === Budgets ===
+type Budget = {
+  categoryId: string;
+  amountCents: number; // per month
+  rollover: boolean; // carry unspent amounts into the next month
+  startMonth: string; // YYYY-MM, first month the budget applies
+};
+
+// month -> categoryId -> spent; child spending also counts towards its parent
+function spentByMonth(categories: Category[], txs: Tx[]) {
+  const out: Record<string, Record<string, number>> = {};
+  for (const l of gastoLines(txs)) {
+    if (!l.categoryId) continue;
+    const m = (out[monthKey(l.date)] ??= {});
+    m[l.categoryId] = (m[l.categoryId] || 0) + l.amountCents;
+    const rootId = rootCategoryId(categories, l.categoryId);
+    if (rootId && rootId !== l.categoryId) m[rootId] = (m[rootId] || 0) + l.amountCents;
+  }
+  return out;
+}
+
+function budgetRows(budgets: Budget[], categories: Category[], txs: Tx[], month: string) {
+  const spent = spentByMonth(categories, txs);
+  return budgets
+    .filter((b) => categories.some((c) => c.id === b.categoryId) && b.startMonth <= month)
+    .map((b) => {
+      let carryCents = 0;
+      if (b.rollover) {
+        for (let m = b.startMonth; m < month; m = addMonths(m, 1)) {
+          carryCents = Math.max(0, b.amountCents + carryCents - (spent[m]?.[b.categoryId] || 0));
+        }
+      }
+      const budgetedCents = b.amountCents + carryCents;
+      const spentCents = spent[month]?.[b.categoryId] || 0;
+      return { budget: b, carryCents, budgetedCents, spentCents, remainingCents: budgetedCents - spentCents };
+    });
+}
+
+// === Savings goals ===
+// A goal is funded by transfers tagged with it: into its account they add, out of it they take back.
+// The pace is the net monthly contribution over the last GOAL_PACE_MONTHS (or since the first one, if newer).
+const GOAL_PACE_MONTHS = 3;
+
+function goalContribution(goal: Goal, t: Tx) {
+  if (t.type !== "TRANSFERENCIA" || t.goalId !== goal.id) return 0;
+  if (t.accountToId === goal.accountId) return t.amountToCents ?? t.amountCents;
+  if (t.accountFromId === goal.accountId) return -t.amountCents;
+  return 0;
+}
+
+function goalProgress(goal: Goal, txs: Tx[], today = todayStr()) {
+  const mine = (txs || []).filter((t) => t.date <= today && goalContribution(goal, t) !== 0);
+  const savedCents = mine.reduce((acc, t) => acc + goalContribution(goal, t), 0);
+  const remainingCents = Math.max(0, goal.targetCents - savedCents);
+  // months left counts the target month; a past date asks for everything now
+  const thisMonth = monthKey(today);
+  let monthsLeft = 0;
+  for (let m = thisMonth; m <= monthKey(goal.targetDate); m = addMonths(m, 1)) monthsLeft++;
+  const monthlyNeededCents = remainingCents ? Math.ceil(remainingCents / Math.max(1, monthsLeft)) : 0;
+
+  const first = mine.reduce<string | null>((min, t) => (!min || t.date < min ? t.date : min), null);
+  const windowStart = first && first > addMonthsToDate(today, -GOAL_PACE_MONTHS) ? first : addMonthsToDate(today, -GOAL_PACE_MONTHS);
+  const recent = mine.filter((t) => t.date >= windowStart).reduce((acc, t) => acc + goalContribution(goal, t), 0);
+  const paceCents = first ? Math.round(recent / Math.max(1, daysBetween(windowStart, today) / 30.44)) : 0;
+  // month the target is reached at that pace; null when it is not growing
+  const projectedMonth = !remainingCents ? thisMonth : paceCents > 0 ? addMonths(thisMonth, Math.ceil(remainingCents / paceCents)) : null;
+  return {
+    savedCents,
+    remainingCents,
+    pct: goal.targetCents > 0 ? Math.min(100, Math.max(0, (savedCents / goal.targetCents) * 100)) : 0,
+    monthsLeft,
+    monthlyNeededCents,
+    paceCents,
+    projectedMonth,
+    onTrack: !remainingCents || (projectedMonth != null && projectedMonth <= monthKey(goal.targetDate)),
+  };
+}
+
+// === Loans (IOUs) ===
+// Lending is a GASTO and being repaid an INGRESO; borrowing the other way around
+const LOAN_AGING = [
+  { maxDays: 30, label: "0 a 30 días" },
+  { maxDays: 90, label: "31 a 90 días" },
+  { maxDays: 180, label: "91 a 180 días" },
+  { maxDays: Infinity, label: "Más de 180 días" },
+];
+const loanPrincipalType = (loan: Loan): Tx["type"] => (loan.direction === "LENT" ? "GASTO" : "INGRESO");
+const loanRepaymentType = (loan: Loan): Tx["type"] => (loan.direction === "LENT" ? "INGRESO" : "GASTO");
+
+function loanStatus(loan: Loan, txs: Tx[], today = todayStr()) {
+  const mine = (txs || []).filter((t) => t && t.loanId === loan.id).sort((a, b) => a.date.localeCompare(b.date));
+  const principal = mine.filter((t) => t.type === loanPrincipalType(loan));
+  const repayments = mine.filter((t) => t.type === loanRepaymentType(loan));
+  const principalCents = principal.reduce((acc, t) => acc + Number(t.amountCents || 0), 0);
+  const repaidCents = repayments.reduce((acc, t) => acc + Number(t.amountCents || 0), 0);
+  const outstandingCents = principalCents - repaidCents;
+  const startDate = principal[0]?.date || mine[0]?.date || today;
+  const ageDays = Math.max(0, daysBetween(startDate, today));
+  return {
+    loan,
+    txs: mine,
+    principalCents,
+    repaidCents,
+    outstandingCents,
+    startDate,
+    lastPaymentDate: repayments[repayments.length - 1]?.date || null,
+    ageDays,
+    agingIndex: LOAN_AGING.findIndex((b) => ageDays <= b.maxDays),
+    overdueDays: loan.dueDate && outstandingCents > 0 && loan.dueDate < today ? daysBetween(loan.dueDate, today) : null,
+  };
+}
+
+// === Recurring / scheduled transactions ===
+type Frequency = "DAILY" | "WEEKLY" | "MONTHLY";
+type TxTemplate = Pick<Tx, "type" | "amountCents" | "accountFromId" | "accountToId" | "categoryId" | "paymentMethod" | "note">;
+type RecurringRule = {
+  id: string;
+  tx: TxTemplate;
+  frequency: Frequency;
+  interval: number; // every N days/weeks/months
+  startDate: string;
+  endDate: string | null;
+  count: number | null; // total occurrences, including skipped ones
+  autoPost: boolean; // post due occurrences on app open without asking
+  paused?: boolean;
+  handled: Record<string, "POSTED" | "SKIPPED">; // by scheduled date
+  overrides: Record<string, { date: string; amountCents: number; note: string | null }>; // edits made before posting
+  createdAt: number;
+};
+type Occurrence = { rule: RecurringRule; scheduledDate: string; date: string; amountCents: number; note: string | null };
+
+const FREQUENCY_LABELS: Record<Frequency, string> = { DAILY: "día(s)", WEEKLY: "semana(s)", MONTHLY: "mes(es)" };
+
+function occurrenceDates(rule: RecurringRule, until: string) {
+  const out: string[] = [];
+  const step = Math.max(1, rule.interval || 1);
+  for (let i = 0; ; i++) {
+    if (rule.count != null && i >= rule.count) break;
+    const date =
+      rule.frequency === "MONTHLY"
+        ? addMonthsToDate(rule.startDate, i * step)
+        : addDays(rule.startDate, i * step * (rule.frequency === "WEEKLY" ? 7 : 1));
+    if (date > until || (rule.endDate && date > rule.endDate)) break;
+    out.push(date);
+  }
+  return out;
+}
+
+// Occurrences up to `until` that were neither posted nor skipped, oldest first
+// Pending by the date each occurrence will post on: an edited one can be moved past `until` or into it
+function pendingOccurrences(rules: RecurringRule[], until: string): Occurrence[] {
+  const out: Occurrence[] = [];
+  for (const rule of rules) {
+    if (rule.paused) continue;
+    const scheduled = new Set([...occurrenceDates(rule, until), ...Object.keys(rule.overrides)]);
+    for (const scheduledDate of scheduled) {
+      if (rule.handled[scheduledDate]) continue;
+      const o = rule.overrides[scheduledDate];
+      const date = o?.date || scheduledDate;
+      if (date > until) continue;
+      out.push({ rule, scheduledDate, date, amountCents: o?.amountCents ?? rule.tx.amountCents, note: o ? o.note : rule.tx.note });
+    }
+  }
+  return out.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function txFromOccurrence(o: Occurrence): Tx {
+  const now = Date.now();
+  return { ...o.rule.tx, id: newId(), date: o.date, amountCents: o.amountCents, note: o.note, recurringId: o.rule.id, createdAt: now, updatedAt: now };
+}
+
+function markHandled(rules: RecurringRule[], occurrences: Occurrence[], status: "POSTED" | "SKIPPED") {
+  return rules.map((r) => {
+    const mine = occurrences.filter((o) => o.rule.id === r.id);
+    if (!mine.length) return r;
+    const handled = { ...r.handled };
+    const overrides = { ...r.overrides };
+    for (const o of mine) {
+      handled[o.scheduledDate] = status;
+      delete overrides[o.scheduledDate];
+    }
+    return { ...r, handled, overrides };
+  });
+}
+
+// === Transaction history ===
+const TX_TRACKED_FIELDS = [
+  "type",
+  "date",
+  "amountCents",
+  "accountFromId",
+  "accountToId",
+  "categoryId",
+  "paymentMethod",
+  "note",
+  "installments",
+  "amountToCents",
+  "originalCurrency",
+  "originalAmountCents",
+  "cleared",
+  "reconciled",
+  "splits",
+  "payeeId",
+  "tags",
+  "attachments",
+  "goalId",
+  "loanId",
+] as const;
+type TrackedField = (typeof TX_TRACKED_FIELDS)[number];
+const TX_FIELD_LABELS: Record<TrackedField, string> = {
+  type: "Tipo",
+  date: "Fecha",
+  amountCents: "Monto",
+  accountFromId: "Cuenta origen",
+  accountToId: "Cuenta destino",
+  categoryId: "Categoría",
+  paymentMethod: "Medio de pago",
+  note: "Nota",
+  installments: "Cuotas",
+  amountToCents: "Monto recibido",
+  originalCurrency: "Moneda original",
+  originalAmountCents: "Monto original",
+  cleared: "Verificado",
+  reconciled: "Conciliado",
+  splits: "División",
+  payeeId: "Beneficiario",
+  tags: "Etiquetas",
+  attachments: "Adjuntos",
+  goalId: "Meta",
+  loanId: "Préstamo",
+};
+type TxChange = { at: number; changes: Partial<Record<TrackedField, { from: any; to: any }>> };
+type TxHistory = Record<string, TxChange[]>; // by transaction id
+
+function diffTx(before: Tx, after: Tx) {
+  const changes: TxChange["changes"] = {};
+  for (const f of TX_TRACKED_FIELDS) {
+    const from = before[f] ?? null;
+    const to = after[f] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes[f] = { from, to };
+  }
+  return changes;
+}
+
+// The transaction as it was before change `index` (and every later one) was made
+function rollbackTx(tx: Tx, history: TxChange[], index: number): Tx {
+  const out: any = { ...tx };
+  for (let i = history.length - 1; i >= index; i--) {
+    for (const [f, c] of Object.entries(history[i].changes))
+      out[f] = c?.from ?? (["installments", "splits", "tags", "attachments"].includes(f) ? undefined : null);
+  }
+  return out;
+}
+
+// === Undo / redo of transaction changes ===
+// One entry per affected transaction: before === null is an insert, after === null a delete (which keeps the
+// deleted movement's change history, to put it back on undo). An insert posted from a recurring rule carries its
+// occurrence, so undoing it makes the occurrence pending again.
+type PostedOccurrence = { ruleId: string; scheduledDate: string; override?: RecurringRule["overrides"][string] };
+type TxChangeSet = { before: Tx | null; after: Tx | null; index?: number; history?: TxChange[]; occurrence?: PostedOccurrence }[];
+type TxOperation = { label: string; changes: TxChangeSet };
+const UNDO_LIMIT = 50;
+
+function applyTxChangeSet(txs: Tx[], changes: TxChangeSet, dir: "forward" | "back"): Tx[] {
+  const out = [...txs];
+  for (const c of dir === "forward" ? changes : [...changes].reverse()) {
+    const from = dir === "forward" ? c.before : c.after;
+    const to = dir === "forward" ? c.after : c.before;
+    const id = (from || to)!.id;
+    const i = out.findIndex((t) => t.id === id);
+    if (to && i >= 0) out[i] = to;
+    else if (to) out.splice(Math.min(c.index ?? 0, out.length), 0, to);
+    else if (i >= 0) out.splice(i, 1);
+  }
+  return out;
+}
+
+function useTxUndo(
+  setTxs: (fn: (prev: Tx[]) => Tx[]) => void,
+  txHistory: TxHistory,
+  setTxHistory: (fn: (prev: TxHistory) => TxHistory) => void,
+  setRules: (fn: (prev: RecurringRule[]) => RecurringRule[]) => void
+) {
+  const [undoStack, setUndoStack] = useState<TxOperation[]>([]);
+  const [redoStack, setRedoStack] = useState<TxOperation[]>([]);
+
+  const apply = (changes: TxChangeSet, dir: "forward" | "back") => {
+    setTxs((prev) => applyTxChangeSet(prev || [], changes, dir));
+    // Edits (in either direction) are recorded in the per-transaction history; a movement that goes away takes its
+    // history with it
+    const at = Date.now();
+    setTxHistory((prev) => {
+      const next = { ...(prev || {}) };
+      let changed = false;
+      for (const c of changes) {
+        const [from, to] = dir === "forward" ? [c.before, c.after] : [c.after, c.before];
+        if (from && !to && next[from.id]) {
+          delete next[from.id];
+          changed = true;
+        } else if (!from && to && c.history?.length) {
+          next[to.id] = c.history;
+          changed = true;
+        } else if (from && to) {
+          const diff = diffTx(from, to);
+          if (!Object.keys(diff).length) continue;
+          next[from.id] = [...(next[from.id] || []), { at, changes: diff }];
+          changed = true;
+        }
+      }
+      return changed ? next : prev;
+    });
+    const posted = changes.filter((c) => c.occurrence);
+    if (!posted.length) return;
+    setRules((prev) =>
+      (prev || []).map((r) => {
+        const mine = posted.filter((c) => c.occurrence!.ruleId === r.id);
+        if (!mine.length) return r;
+        const handled = { ...r.handled };
+        const overrides = { ...r.overrides };
+        for (const c of mine) {
+          const { scheduledDate, override } = c.occurrence!;
+          if (dir === "forward") {
+            handled[scheduledDate] = "POSTED";
+            delete overrides[scheduledDate];
+          } else {
+            delete handled[scheduledDate];
+            if (override) overrides[scheduledDate] = override;
+          }
+        }
+        return { ...r, handled, overrides };
+      })
+    );
+  };
+
+  const commit = (label: string, changeSet: TxChangeSet) => {
+    if (!changeSet.length) return;
+    const changes = changeSet.map((c) => (c.before && !c.after && (txHistory || {})[c.before.id] ? { ...c, history: txHistory[c.before.id] } : c));
+    apply(changes, "forward");
+    setUndoStack((s) => [...s.slice(-(UNDO_LIMIT - 1)), { label, changes }]);
+    setRedoStack([]);
+  };
+  const undo = () => {
+    const op = undoStack[undoStack.length - 1];
+    if (!op) return;
+    apply(op.changes, "back");
+    setUndoStack((s) => s.slice(0, -1));
+    setRedoStack((s) => [...s, op]);
+  };
+  const redo = () => {
+    const op = redoStack[redoStack.length - 1];
+    if (!op) return;
+    apply(op.changes, "forward");
+    setRedoStack((s) => s.slice(0, -1));
+    setUndoStack((s) => [...s, op]);
+  };
+  // After a restore the recorded operations no longer match the data
+  const reset = () => {
+    setUndoStack([]);
+    setRedoStack([]);
+  };
+
+  return { commit, undo, redo, reset, undoLabel: undoStack[undoStack.length - 1]?.label, redoLabel: redoStack[redoStack.length - 1]?.label };
+}
+
+// === Transaction filters (reports) ===
+// Empty fields don't filter. Amounts are compared in the transaction's own currency, as shown in the table.
+type TxFilter = {
+  text: string; // searched in the note, ignoring case and accents
+  type: "" | Tx["type"];
+  accountId: string; // either side of the movement
+  categoryId: string; // a parent category includes its subcategories
+  paymentMethod: string;
+  payeeId: string;
+  tag: string;
+  minAmount: string;
+  maxAmount: string;
+  from: string; // "YYYY-MM-DD", inclusive
+  to: string;
+};
+type ReportView = { id: string; name: string; filter: TxFilter };
+const emptyTxFilter: TxFilter = {
+  text: "",
+  type: "",
+  accountId: "",
+  categoryId: "",
+  paymentMethod: "",
+  payeeId: "",
+  tag: "",
+  minAmount: "",
+  maxAmount: "",
+  from: "",
+  to: "",
+};
+
+const monthRange = (month: string) => ({ from: `${month}-01`, to: addDays(`${addMonths(month, 1)}-01`, -1) });
+// "#viaje, Mercado ,viaje" → ["viaje", "Mercado"]: trimmed, without "#", one per spelling ignoring case and accents
+function parseTags(str: string) {
+  const out: string[] = [];
+  for (const raw of (str || "").split(",")) {
+    const tag = raw.trim().replace(/^#+/, "").trim();
+    if (tag && !out.some((t) => normalizeText(t) === normalizeText(tag))) out.push(tag);
+  }
+  return out;
+}
+const findPayee = (payees: Payee[], name: string) => payees.find((p) => normalizeText(p.name) === normalizeText(name));
+
+const txCategoryIds = (t: Tx) => (t.splits?.length ? t.splits.map((l) => l.categoryId) : [t.categoryId]);
+const inDateRange = (filter: TxFilter, date: string) => (!filter.from || date >= filter.from) && (!filter.to || date <= filter.to);
+
+// Everything but the dates, so installment reports can apply the range to each cuota's billing date
+function matchesTxFilter(filter: TxFilter, t: Tx, categories: Category[]) {
+  if (filter.type && t.type !== filter.type) return false;
+  if (filter.accountId && t.accountFromId !== filter.accountId && t.accountToId !== filter.accountId) return false;
+  if (filter.categoryId && !txCategoryIds(t).some((id) => id === filter.categoryId || rootCategoryId(categories, id) === filter.categoryId)) return false;
+  if (filter.paymentMethod && t.paymentMethod !== filter.paymentMethod) return false;
+  if (filter.payeeId && t.payeeId !== filter.payeeId) return false;
+  if (filter.tag && !(t.tags || []).some((tag) => normalizeText(tag) === normalizeText(filter.tag))) return false;
+  const amount = Math.abs(Number(t.amountCents) || 0);
+  if (filter.minAmount.trim() && amount < toCents(filter.minAmount)) return false;
+  if (filter.maxAmount.trim() && amount > toCents(filter.maxAmount)) return false;
+  const text = normalizeText(filter.text);
+  return !text || [t.note, ...(t.splits || []).map((l) => l.note)].some((n) => normalizeText(n || "").includes(text));
+}
+const filterTxs = (txs: Tx[], filter: TxFilter, categories: Category[]) =>
+  (txs || []).filter((t) => t && inDateRange(filter, t.date) && matchesTxFilter(filter, t, categories));
+const isFilterActive = (filter: TxFilter) => (Object.keys(emptyTxFilter) as (keyof TxFilter)[]).some((k) => filter[k].trim() !== "");
+
+// === CSV ===
+const CSV_COLUMNS = [
+  "id",
+  "type",
+  "date",
+  "amountCents",
+  "accountFromId",
+  "accountToId",
+  "categoryId",
+  "paymentMethod",
+  "note",
+  "installments",
+  "payee",
+  "tags",
+] as const;
+
+// RFC 4180: fields with separators, quotes or line breaks are quoted, quotes doubled
+function csvField(v: unknown, sep = ",") {
+  const str = v == null ? "" : String(v);
+  return str.includes(sep) || /["\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+function buildCSV(txs: Tx[], payees: Payee[] = []) {
+  const header = CSV_COLUMNS.join(",");
+  // the payee goes by name and tags separated by ";" so the file reads on its own
+  const value = (t: Tx, c: (typeof CSV_COLUMNS)[number]) =>
+    c === "payee" ? payees.find((p) => p.id === t.payeeId)?.name : c === "tags" ? (t.tags || []).join(";") : t[c];
+  const rows = (txs || []).map((t) => CSV_COLUMNS.map((c) => csvField(value(t, c))).join(","));
+  return [header, ...rows].join("\n");
+}
+
+function parseDelimited(text: string, sep: string): string[][] {
+  const src = (text || "").replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch !== '"') field += ch;
+      else if (src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else inQuotes = false;
+    } else if (ch === '"' && field === "") inQuotes = true;
+    else if (ch === sep) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+function detectSeparator(text: string) {
+  const first = (text || "").split(/\r?\n/).find((l) => l.trim()) || "";
+  const unquoted = first.replace(/"[^"]*"/g, "");
+  const counts = [",", ";", "\t", "|"].map((sep) => ({ sep, n: unquoted.split(sep).length - 1 }));
+  return counts.sort((a, b) => b.n - a.n)[0].n > 0 ? counts[0].sep : ",";
+}
+
+// "1.234,56", "-1,234.56", "(500)", "$ 12.000" -> cents; decimal is the decimal separator
+function parseAmount(raw: string, decimal: "," | "."): number | null {
+  let str = (raw || "").trim();
+  if (!str) return null;
+  let neg = false;
+  if (/^\(.*\)$/.test(str)) {
+    neg = true;
+    str = str.slice(1, -1);
+  }
+  if (str.endsWith("-")) {
+    neg = !neg;
+    str = str.slice(0, -1);
+  }
+  str = str.replace(/[^0-9.,-]/g, "");
+  if (str.startsWith("-")) {
+    neg = !neg;
+    str = str.slice(1);
+  }
+  str = str
+    .split(decimal === "," ? "." : ",")
+    .join("")
+    .replace(decimal, ".");
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(str)) return null;
+  const cents = Math.round(parseFloat(str) * 100);
+  return neg ? -cents : cents;
+}
+function detectDecimal(samples: string[]): "," | "." {
+  let comma = 0;
+  let dot = 0;
+  for (const raw of samples) {
+    const str = (raw || "").replace(/[^0-9.,]/g, "");
+    if (/,\d{1,2}$/.test(str) || /\.\d{3},/.test(str)) comma++;
+    else if (/\.\d{1,2}$/.test(str) || /,\d{3}\./.test(str)) dot++;
+  }
+  // "1.234" alone is a thousands separator in es-CO
+  return dot > comma ? "." : ",";
+}
+
+type DateFormat = "YMD" | "DMY" | "MDY";
+function parseDateStr(raw: string, fmt: DateFormat): string | null {
+  const str = (raw || "").trim();
+  let y: number, m: number, d: number;
+  const compact = str.match(/^(\d{4})(\d{2})(\d{2})/);
+  const parts = str.match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/);
+  if (compact) [y, m, d] = [Number(compact[1]), Number(compact[2]), Number(compact[3])];
+  else if (parts) {
+    const [a, b, c] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+    if (parts[1].length === 4 || fmt === "YMD") [y, m, d] = [a, b, c];
+    else if (fmt === "MDY") [y, m, d] = [c, a, b];
+    else [y, m, d] = [c, b, a];
+    if (y < 100) y += 2000;
+  } else return null;
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+  return date.toISOString().slice(0, 10);
+}
+function detectDateFormat(samples: string[]): DateFormat {
+  let fmt: DateFormat = "DMY";
+  for (const raw of samples) {
+    const p = (raw || "").trim().match(/^(\d{1,4})[-/.](\d{1,2})[-/.]/);
+    if (!p) continue;
+    if (p[1].length === 4) return "YMD";
+    if (Number(p[1]) > 12) return "DMY";
+    if (Number(p[2]) > 12) fmt = "MDY";
+  }
+  return fmt;
+}
+
+const normalizeText = (str: string) =>
+  (str || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+
+// === Import (shared review step) ===
+type ImportCandidate = { tx: Tx | null; errors: string[] };
+type ImportRow = ImportCandidate & { key: string; duplicate: string | null; include: boolean };
+
+// The account a movement hits first: the origin, or the destination for income
+const movementAccountId = (t: Pick<Tx, "type" | "accountFromId" | "accountToId">) => (t.type === "INGRESO" ? t.accountToId : t.accountFromId);
+const duplicateKey = (t: Tx) => `${t.date}|${Math.abs(t.amountCents)}|${movementAccountId(t)}`;
+
+// Flags rows matching an existing transaction (or an earlier row) on date, amount and account; duplicates start unchecked
+function buildImportRows(candidates: ImportCandidate[], existing: Tx[]): ImportRow[] {
+  const ids = new Set(existing.map((t) => t.id));
+  const refs = new Set(existing.map((t) => t.importRef).filter(Boolean));
+  // same date, amount and account; two lines that both carry a bank id (FITID) are told apart by it instead
+  const seen = new Map<string, { label: string; ref: string | null }[]>();
+  const remember = (t: Tx, label: string) => {
+    const k = duplicateKey(t);
+    seen.set(k, [...(seen.get(k) || []), { label, ref: t.importRef || null }]);
+  };
+  existing.forEach((t) => remember(t, "ya registrado"));
+  return candidates.map((c, i) => {
+    let duplicate: string | null = null;
+    if (c.tx) {
+      const ref = c.tx.importRef || null;
+      const match = (seen.get(duplicateKey(c.tx)) || []).find((e) => !ref || !e.ref);
+      if (ids.has(c.tx.id)) duplicate = "mismo id";
+      else if (ref && refs.has(ref)) duplicate = "ya importado";
+      else if (match) duplicate = match.label;
+      remember(c.tx, "repetido en el archivo");
+      if (ref) refs.add(ref);
+    }
+    return { ...c, key: String(i), duplicate, include: !!c.tx && !c.errors.length && !duplicate };
+  });
+}
+
+function resolveAccount(accounts: Account[], value: string) {
+  const v = normalizeText(value);
+  return accounts.find((a) => a.id === value.trim() || normalizeText(a.name) === v) || null;
+}
+function resolveCategory(categories: Category[], value: string) {
+  const v = normalizeText(value);
+  return categories.find((c) => c.id === value.trim() || normalizeText(c.name) === v || normalizeText(categoryPath(categories, c.id) || "") === v) || null;
+}
+function parseTxType(value: string): Tx["type"] | null {
+  const v = normalizeText(value);
+  if (["ingreso", "income", "credito", "abono", "deposito"].includes(v)) return "INGRESO";
+  if (["gasto", "expense", "debito", "cargo", "retiro", "compra"].includes(v)) return "GASTO";
+  if (["transferencia", "transfer"].includes(v)) return "TRANSFERENCIA";
+  return null;
+}
+
+// === OFX / QIF statements ===
+type StatementFormat = "ofx" | "qif";
+type StatementLine = { date: string | null; amountCents: number | null; ref: string | null; payee: string; memo: string; category: string };
+
+const decodeEntities = (str: string) =>
+  str
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+// Works for SGML (OFX 1.x, unclosed tags) and XML (OFX 2.x)
+function parseOFX(text: string): StatementLine[] {
+  const tag = (block: string, name: string) => decodeEntities(block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, "i"))?.[1].trim() || "");
+  return (text || "")
+    .split(/<STMTTRN>/i)
+    .slice(1)
+    .map((block) => {
+      const b = block.split(/<\/STMTTRN>/i)[0];
+      const amount = tag(b, "TRNAMT");
+      return {
+        date: parseDateStr(tag(b, "DTPOSTED").slice(0, 8), "YMD"),
+        amountCents: parseAmount(amount, amount.includes(",") && !amount.includes(".") ? "," : "."),
+        ref: tag(b, "FITID") || tag(b, "CHECKNUM") || null,
+        payee: tag(b, "NAME") || tag(b, "PAYEE"),
+        memo: tag(b, "MEMO"),
+        category: "",
+      };
+    });
+}
+
+function qifRecords(text: string) {
+  const out: Record<string, string>[] = [];
+  let cur: Record<string, string> = {};
+  for (const raw of (text || "").split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("!")) continue;
+    if (line === "^") {
+      if (Object.keys(cur).length) out.push(cur);
+      cur = {};
+      continue;
+    }
+    // first occurrence wins (split lines repeat S/$/E)
+    cur[line[0]] ??= line.slice(1).trim();
+  }
+  if (Object.keys(cur).length) out.push(cur);
+  return out;
+}
+const qifDate = (raw: string) => (raw || "").replace(/'/g, "/").replace(/\s/g, "");
+function parseQIF(text: string, fmt: DateFormat, decimal: "," | "."): StatementLine[] {
+  return qifRecords(text).map((r) => ({
+    date: parseDateStr(qifDate(r.D), fmt),
+    amountCents: parseAmount(r.T ?? r.U ?? "", decimal),
+    ref: r.N || null,
+    payee: r.P || "",
+    memo: r.M || "",
+    category: (r.L || "").replace(/^\[.*\]$/, ""),
+  }));
+}
+
+// Negative lines leave the account; positive lines enter it (a payment, when the account is a card)
+function statementToCandidates(
+  lines: StatementLine[],
+  format: StatementFormat,
+  account: Account | null,
+  sourceAccountId: string,
+  categories: Category[]
+): ImportCandidate[] {
+  const repeats: Record<string, number> = {};
+  return lines.map((l) => {
+    const errors: string[] = [];
+    if (!account) errors.push("elige la cuenta del extracto");
+    if (!l.date) errors.push("fecha inválida");
+    if (!l.amountCents) errors.push("monto inválido");
+    const isCard = account?.type === ACCOUNT_TYPES.CREDIT;
+    const incoming = (l.amountCents || 0) > 0;
+    if (incoming && isCard && !sourceAccountId) errors.push("elige desde qué cuenta se pagó la tarjeta");
+    if (errors.length || !account || !l.date || !l.amountCents) return { tx: null, errors };
+
+    // Lines without FITID / check number get a stable id from their content
+    const base = `${l.date}|${l.amountCents}|${l.payee}`;
+    const n = (repeats[base] = (repeats[base] || 0) + 1);
+    const ref = `${format}:${account.id}:${l.ref || `${base}#${n}`}`;
+
+    const type: Tx["type"] = !incoming ? "GASTO" : isCard ? "TRANSFERENCIA" : "INGRESO";
+    const cat = l.category ? resolveCategory(categories, l.category) : null;
+    const now = Date.now();
+    const tx: Tx = {
+      id: newId(),
+      type,
+      date: l.date,
+      amountCents: Math.abs(l.amountCents),
+      accountFromId: type === "GASTO" ? account.id : type === "TRANSFERENCIA" ? sourceAccountId : null,
+      accountToId: type === "GASTO" ? null : account.id,
+      categoryId: cat && cat.kind === type ? cat.id : null,
+      paymentMethod: type === "GASTO" ? PAYMENT_METHODS.find((m) => m.accountId === account.id)?.id || "OTRA" : null,
+      note: [l.payee, l.memo].filter(Boolean).join(" · ") || null,
+      createdAt: now,
+      updatedAt: now,
+      importRef: ref,
+    };
+    return { tx, errors };
+  });
+}
+
+// === CSV import mapping ===
+const CSV_TARGETS = [
+  { field: "date", label: "Fecha", aliases: ["date", "fecha", "fecha transaccion", "fecha movimiento"] },
+  { field: "amount", label: "Monto (pesos)", aliases: ["amount", "monto", "valor", "importe"] },
+  { field: "amountCents", label: "Monto (centavos)", aliases: ["amountcents"] },
+  { field: "debit", label: "Débito / salida", aliases: ["debito", "cargo", "retiro", "salida", "debit"] },
+  { field: "credit", label: "Crédito / entrada", aliases: ["credito", "abono", "deposito", "entrada", "credit"] },
+  { field: "type", label: "Tipo", aliases: ["type", "tipo"] },
+  { field: "accountFrom", label: "Cuenta origen", aliases: ["accountfromid", "cuenta origen", "cuenta"] },
+  { field: "accountTo", label: "Cuenta destino", aliases: ["accounttoid", "cuenta destino"] },
+  { field: "category", label: "Categoría", aliases: ["categoryid", "categoria", "category"] },
+  { field: "paymentMethod", label: "Medio de pago", aliases: ["paymentmethod", "medio de pago"] },
+  { field: "note", label: "Nota", aliases: ["note", "nota", "descripcion", "concepto", "detalle", "referencia", "description"] },
+  { field: "installments", label: "Cuotas", aliases: ["installments", "cuotas"] },
+  { field: "tags", label: "Etiquetas", aliases: ["tags", "etiquetas"] },
+  { field: "id", label: "Id", aliases: ["id"] },
+] as const;
+type CsvTarget = (typeof CSV_TARGETS)[number]["field"];
+type CsvMapping = {
+  columns: Partial<Record<CsvTarget, number>>;
+  hasHeader: boolean;
+  dateFormat: DateFormat;
+  decimal: "," | ".";
+  defaultAccountId: string; // for rows without an account column/value
+};
+
+function guessCsvMapping(table: string[][], accounts: Account[]): CsvMapping {
+  const header = (table[0] || []).map(normalizeText);
+  const columns: CsvMapping["columns"] = {};
+  for (const t of CSV_TARGETS) {
+    const i = header.findIndex((h, idx) => (t.aliases as readonly string[]).includes(h) && !Object.values(columns).includes(idx));
+    if (i >= 0) columns[t.field] = i;
+  }
+  const hasHeader = Object.keys(columns).length > 0;
+  const body = hasHeader ? table.slice(1) : table;
+  const sample = (col?: number) => (col == null ? [] : body.slice(0, 50).map((r) => r[col] || ""));
+  return {
+    columns,
+    hasHeader,
+    dateFormat: detectDateFormat(sample(columns.date)),
+    decimal: detectDecimal([...sample(columns.amount), ...sample(columns.debit), ...sample(columns.credit)]),
+    defaultAccountId: accounts.find((a) => !a.archived)?.id || "",
+  };
+}
+
+function csvToCandidates(table: string[][], mapping: CsvMapping, accounts: Account[], categories: Category[]): ImportCandidate[] {
+  const body = mapping.hasHeader ? table.slice(1) : table;
+  const col = (row: string[], f: CsvTarget) => (mapping.columns[f] == null ? "" : (row[mapping.columns[f]!] || "").trim());
+  return body.map((row) => {
+    const errors: string[] = [];
+    const date = parseDateStr(col(row, "date"), mapping.dateFormat);
+    if (!date) errors.push(`fecha inválida "${col(row, "date")}"`);
+
+    // Amount: signed single column, cents column, or separate debit/credit columns
+    let cents: number | null = null;
+    let inferred: Tx["type"] | null = null;
+    if (mapping.columns.amountCents != null) cents = /^-?\d+$/.test(col(row, "amountCents")) ? Number(col(row, "amountCents")) : null;
+    else if (mapping.columns.amount != null) cents = parseAmount(col(row, "amount"), mapping.decimal);
+    else {
+      const debit = parseAmount(col(row, "debit"), mapping.decimal);
+      const credit = parseAmount(col(row, "credit"), mapping.decimal);
+      if (debit) [cents, inferred] = [-Math.abs(debit), "GASTO"];
+      else if (credit) [cents, inferred] = [Math.abs(credit), "INGRESO"];
+    }
+    if (cents == null || cents === 0) errors.push("monto inválido");
+    if (!inferred && cents) inferred = cents < 0 ? "GASTO" : "INGRESO";
+
+    let type = inferred;
+    if (mapping.columns.type != null && col(row, "type")) {
+      type = parseTxType(col(row, "type"));
+      if (!type) errors.push(`tipo desconocido "${col(row, "type")}"`);
+    }
+
+    const account = (f: "accountFrom" | "accountTo") => {
+      const v = col(row, f);
+      if (!v) return null;
+      const a = resolveAccount(accounts, v);
+      if (!a) errors.push(`cuenta "${v}" no existe`);
+      return a?.id || null;
+    };
+    let accountFromId = account("accountFrom");
+    let accountToId = account("accountTo");
+    if (type === "GASTO") accountFromId ||= mapping.defaultAccountId || null;
+    if (type === "INGRESO") {
+      // single account column on a bank export: the money came into that account
+      accountToId ||= mapping.columns.accountTo == null ? accountFromId : null;
+      accountToId ||= mapping.defaultAccountId || null;
+    }
+    if (type === "GASTO" && !accountFromId) errors.push("falta cuenta origen");
+    if (type === "INGRESO" && !accountToId) errors.push("falta cuenta destino");
+    if (type === "TRANSFERENCIA" && (!accountFromId || !accountToId || accountFromId === accountToId)) errors.push("transferencia sin cuentas válidas");
+
+    let categoryId: string | null = null;
+    const catValue = col(row, "category");
+    if (catValue && type !== "TRANSFERENCIA") {
+      const c = resolveCategory(categories, catValue);
+      if (!c) errors.push(`categoría "${catValue}" no existe`);
+      else if (c.kind !== type) errors.push(`categoría "${c.name}" no es de tipo ${type?.toLowerCase()}`);
+      else categoryId = c.id;
+    }
+
+    // The method must agree with the origin account: the file's one if it is that account's (or "OTRA"), else the
+    // account's own, and "OTRA" when the file names a method of another account
+    const filePm = PAYMENT_METHODS.find((m) => m.id === col(row, "paymentMethod"));
+    const pm =
+      filePm && (!filePm.accountId || filePm.accountId === accountFromId)
+        ? filePm.id
+        : filePm
+          ? "OTRA"
+          : PAYMENT_METHODS.find((m) => m.accountId === accountFromId)?.id || "OTRA";
+    const installments = parseInt(col(row, "installments"), 10);
+    const tags = parseTags(col(row, "tags").replace(/;/g, ","));
+    if (errors.length || !date || !cents || !type) return { tx: null, errors };
+    const now = Date.now();
+    const tx: Tx = {
+      id: col(row, "id") || newId(),
+      type,
+      date,
+      amountCents: Math.abs(cents),
+      accountFromId: type === "INGRESO" ? null : accountFromId,
+      accountToId: type === "GASTO" ? null : accountToId,
+      categoryId,
+      paymentMethod: type === "GASTO" ? pm : null,
+      note: col(row, "note") || null,
+      createdAt: now,
+      updatedAt: now,
+      ...(type === "GASTO" && installments > 1 ? { installments: Math.min(36, installments) } : {}),
+      ...(tags.length ? { tags } : {}),
+    };
+    return { tx, errors };
+  });
+}
+
+// === Backup (versioned JSON with the whole dataset) ===
+// Bump BACKUP_VERSION and add a step to BACKUP_MIGRATIONS whenever a stored entity changes shape
+const BACKUP_VERSION = 6;
+type BackupData = {
+  accounts: Account[];
+  categories: Category[];
+  payees: Payee[];
+  goals: Goal[];
+  valuations: Valuation[];
+  loans: Loan[];
+  transactions: Tx[];
+  budgets: Budget[];
+  recurring: RecurringRule[];
+  rates: FxRate[];
+  settings: Settings;
+  txHistory: TxHistory;
+};
+type Backup = { app: "hasaba"; version: number; exportedAt: string; data: BackupData; files?: BackupFile[] }; // files: attachments, base64
+type RestoreMode = "REPLACE" | "MERGE";
+
+// Every stored entity, with its pre-IndexedDB localStorage key; new entities have to be listed here to be backed up
+const BACKUP_ENTITIES: Record<keyof BackupData, { key?: string; label: string }> = {
+  accounts: { key: LS_KEYS.ACCOUNTS, label: "Cuentas" },
+  categories: { key: LS_KEYS.CATEGORIES, label: "Categorías" },
+  payees: { label: "Beneficiarios" },
+  goals: { label: "Metas de ahorro" },
+  valuations: { label: "Valoraciones de inversiones" },
+  loans: { label: "Préstamos" },
+  transactions: { key: LS_KEYS.TXS, label: "Movimientos" },
+  budgets: { key: LS_KEYS.BUDGETS, label: "Presupuestos" },
+  recurring: { key: LS_KEYS.RECURRING, label: "Recurrentes" },
+  rates: { label: "Tasas de cambio" },
+  settings: { label: "Ajustes" },
+  txHistory: { key: LS_KEYS.TX_HISTORY, label: "Historial de cambios" },
+};
+
+// BACKUP_MIGRATIONS[n] turns version n data into version n + 1
+const BACKUP_MIGRATIONS: Record<number, (data: any) => any> = {
+  // Version 0: a raw localStorage dump ({ ga_transactions: "[...]", ... }) or a bare transactions array
+  0: (data) => {
+    if (Array.isArray(data)) return { transactions: data };
+    const out: any = {};
+    for (const [entity, { key }] of Object.entries(BACKUP_ENTITIES)) {
+      const v = (key && data?.[key]) ?? data?.[entity];
+      if (v !== undefined) out[entity] = typeof v === "string" ? JSON.parse(v) : v;
+    }
+    if (Array.isArray(out.accounts)) out.accounts = out.accounts.map(upgradeLegacyAccount);
+    if (Array.isArray(out.categories)) out.categories = out.categories.map(upgradeLegacyCategory);
+    return out;
+  },
+  // Version 1 came before exchange rates: it had none, so a full restore clears this device's. Settings are left as
+  // they are, like any entity a backup does not carry
+  1: (data) => (isRecord(data) ? { rates: [], ...data } : data),
+  // Version 2 came before payees
+  2: (data) => (isRecord(data) ? { payees: [], ...data } : data),
+  // Version 3 came before savings goals
+  3: (data) => (isRecord(data) ? { goals: [], ...data } : data),
+  // Version 4 came before investment valuations
+  4: (data) => (isRecord(data) ? { valuations: [], ...data } : data),
+  // Version 5 came before loans
+  5: (data) => (isRecord(data) ? { loans: [], ...data } : data),
+};
+
+const isRecord = (x: any) => !!x && typeof x === "object" && !Array.isArray(x);
+const BACKUP_VALIDATORS: Record<keyof BackupData, (x: any) => boolean> = {
+  accounts: (a) => isRecord(a) && typeof a.id === "string" && typeof a.name === "string" && Object.values(ACCOUNT_TYPES).includes(a.type),
+  categories: (c) => isRecord(c) && typeof c.id === "string" && typeof c.name === "string" && (c.kind === "GASTO" || c.kind === "INGRESO"),
+  transactions: (t) =>
+    isRecord(t) &&
+    typeof t.id === "string" &&
+    ["INGRESO", "GASTO", "TRANSFERENCIA"].includes(t.type) &&
+    /^\d{4}-\d{2}-\d{2}$/.test(t.date) &&
+    Number.isFinite(t.amountCents),
+  budgets: (b) => isRecord(b) && typeof b.categoryId === "string" && Number.isFinite(b.amountCents),
+  recurring: (r) => isRecord(r) && typeof r.id === "string" && isRecord(r.tx) && typeof r.startDate === "string",
+  payees: (p) => isRecord(p) && typeof p.id === "string" && typeof p.name === "string",
+  goals: (g) =>
+    isRecord(g) &&
+    typeof g.id === "string" &&
+    typeof g.name === "string" &&
+    typeof g.accountId === "string" &&
+    Number.isFinite(g.targetCents) &&
+    /^\d{4}-\d{2}-\d{2}$/.test(g.targetDate),
+  loans: (l) => isRecord(l) && typeof l.id === "string" && typeof l.payeeId === "string" && (l.direction === "LENT" || l.direction === "BORROWED"),
+  valuations: (v) =>
+    isRecord(v) && typeof v.id === "string" && typeof v.accountId === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v.date) && Number.isFinite(v.valueCents),
+  rates: (r) => isRecord(r) && typeof r.id === "string" && /^[A-Z]{3}$/.test(r.from) && /^[A-Z]{3}$/.test(r.to) && r.rate > 0 && typeof r.date === "string",
+  settings: (s) =>
+    isRecord(s) &&
+    /^[A-Z]{3}$/.test(s.baseCurrency) &&
+    (s.reportViews === undefined ||
+      (Array.isArray(s.reportViews) &&
+        s.reportViews.every(
+          (v) =>
+            isRecord(v) &&
+            typeof v.id === "string" &&
+            typeof v.name === "string" &&
+            isRecord(v.filter) &&
+            // fields added later may be missing; the ones there are applied as they are
+            Object.keys(emptyTxFilter).every((k) => v.filter[k] === undefined || typeof v.filter[k] === "string")
+        ))),
+  txHistory: (h) => Array.isArray(h) && h.every((c) => isRecord(c) && Number.isFinite(c.at) && isRecord(c.changes)),
+};
+
+const buildBackup = (data: BackupData, files: BackupFile[] = []): Backup => ({
+  app: "hasaba",
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  data,
+  ...(files.length ? { files } : {}),
+});
+
+// Entities missing from the file are left untouched on restore
+type ParsedBackup = { data: Partial<BackupData>; version: number; exportedAt: string | null; errors: string[]; files?: BackupFile[] };
+function parseBackup(text: string): ParsedBackup {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { data: {}, version: 0, exportedAt: null, errors: ["El archivo no es un JSON válido"] };
+  }
+  const wrapped = isRecord(raw) && raw.app === "hasaba";
+  const version = wrapped ? Number(raw.version) : 0;
+  const exportedAt = wrapped && typeof raw.exportedAt === "string" ? raw.exportedAt : null;
+  const fail = (error: string) => ({ data: {}, version, exportedAt, errors: [error] });
+  if (!Number.isInteger(version) || version < 0) return fail("Versión de respaldo inválida");
+  if (version > BACKUP_VERSION) return fail(`El respaldo es de una versión más nueva (${version}); actualiza la app`);
+
+  let data = wrapped ? raw.data : raw;
+  for (let v = version; v < BACKUP_VERSION; v++) {
+    try {
+      data = BACKUP_MIGRATIONS[v](data);
+    } catch {
+      return fail(`No se pudo migrar el respaldo desde la versión ${v}`);
+    }
+  }
+  if (!isRecord(data)) return fail("El respaldo no tiene datos");
+
+  const errors: string[] = [];
+  const out: Partial<BackupData> = {};
+  for (const [entity, { label }] of Object.entries(BACKUP_ENTITIES) as [keyof BackupData, { key?: string; label: string }][]) {
+    const value = data[entity];
+    if (value === undefined) continue;
+    const items =
+      entity === "txHistory" ? (isRecord(value) ? Object.values(value) : null) : entity === "settings" ? [value] : Array.isArray(value) ? value : null;
+    if (!items) errors.push(`${label}: formato inválido`);
+    else {
+      const bad = items.filter((x) => !BACKUP_VALIDATORS[entity](x)).length;
+      if (bad) errors.push(`${label}: ${bad} registro(s) inválido(s)`);
+      else out[entity] = value;
+    }
+  }
+  if (!errors.length && !Object.keys(out).length) errors.push("El respaldo no tiene datos");
+  const files = wrapped && Array.isArray(raw.files) ? raw.files : [];
+  const badFiles = files.filter((f: any) => !isRecord(f) || typeof f.id !== "string" || typeof f.type !== "string" || typeof f.base64 !== "string").length;
+  if (badFiles) errors.push(`Adjuntos: ${badFiles} archivo(s) inválido(s)`);
+  return { data: errors.length ? {} : out, version, exportedAt, errors, files: errors.length ? [] : files };
+}
+
+// Same key on both sides: the most recently edited copy wins; without timestamps the local one stays
+function mergeList<T>(current: T[], incoming: T[], key: (x: T) => string): T[] {
+  const byKey = new Map(current.map((x) => [key(x), x]));
+  for (const x of incoming) {
+    const local: any = byKey.get(key(x));
+    if (!local || ((x as any).updatedAt || 0) > (local.updatedAt || 0)) byKey.set(key(x), x);
+  }
+  return [...byKey.values()];
+}
+function mergeBackup(current: BackupData, incoming: Partial<BackupData>): Partial<BackupData> {
+  const out: Partial<BackupData> = {};
+  if (incoming.accounts) out.accounts = mergeList(current.accounts, incoming.accounts, (a) => a.id);
+  if (incoming.categories) out.categories = mergeList(current.categories, incoming.categories, (c) => c.id);
+  if (incoming.payees) out.payees = mergeList(current.payees, incoming.payees, (p) => p.id);
+  if (incoming.goals) out.goals = mergeList(current.goals, incoming.goals, (g) => g.id);
+  if (incoming.valuations) out.valuations = mergeList(current.valuations, incoming.valuations, (v) => v.id);
+  if (incoming.loans) out.loans = mergeList(current.loans, incoming.loans, (l) => l.id);
+  if (incoming.budgets) out.budgets = mergeList(current.budgets, incoming.budgets, (b) => b.categoryId);
+  if (incoming.recurring) out.recurring = mergeList(current.recurring, incoming.recurring, (r) => r.id);
+  if (incoming.rates) out.rates = mergeList(current.rates, incoming.rates, (r) => r.id);
+  // settings stay as they are on this device
+  if (incoming.transactions) {
+    // new movements go on top, like any other addition
+    const ids = new Set(current.transactions.map((t) => t.id));
+    const added = incoming.transactions.filter((t) => !ids.has(t.id));
+    out.transactions = [...added, ...mergeList(current.transactions, incoming.transactions, (t) => t.id).filter((t) => ids.has(t.id))];
+  }
+  if (incoming.txHistory) {
+    const next: TxHistory = { ...current.txHistory };
+    for (const [id, entries] of Object.entries(incoming.txHistory)) {
+      const seen = new Set((next[id] || []).map((c) => JSON.stringify(c)));
+      next[id] = [...(next[id] || []), ...entries.filter((c) => !seen.has(JSON.stringify(c)))].sort((a, b) => a.at - b.at);
+    }
+    out.txHistory = next;
+  }
+  return out;
+}
+
+// === Error boundary to avoid blank screen ===
+class ErrorBoundary extends React.Component<{ children: any }, { hasError: boolean; msg: string }> {
+  constructor(props: any) {
+    super(props);
+    this.state = { hasError: false, msg: "" };
+  }
+  static getDerivedStateFromError(error: any) {
+    return { hasError: true, msg: String(error?.message || error) };
+  }
+  componentDidCatch(error: any, info: any) {
+    console.error("UI error:", error, info);
+  }
+  render() {
+    if (this.state.hasError) {
+      return (
+        <div style={{ padding: 16, color: "#333" }}>
+          <h3>Ups, algo salió mal.</h3>
+          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>Detalle: {this.state.msg}</div>
+          <button
+            style={{ marginTop: 12 }}
+            onClick={() => {
+              this.setState({ hasError: false, msg: "" });
+              location.reload();
+            }}
+          >
+            Recargar
+          </button>
+        </div>
+      );
+    }
+    return this.props.children;
+  }
+}
+
+// === Accounts screen ===
+type AccountDraft = {
+  id: string | null;
+  name: string;
+  type: AccountType;
+  initialBalance: string;
+  creditLimit: string;
+  initialDebt: string;
+  statementDay: string;
+  dueDay: string;
+  monthlyRatePct: string;
+  minPaymentPct: string;
+  liquid: boolean;
+  currency: string;
+  investmentKind: InvestmentKind | "";
+  annualRatePct: string;
+  openDate: string;
+  maturityDate: string;
+};
+const emptyAccountDraft: AccountDraft = {
+  id: null,
+  name: "",
+  type: ACCOUNT_TYPES.CASH,
+  initialBalance: "0",
+  creditLimit: "0",
+  initialDebt: "0",
+  statementDay: "",
+  dueDay: "",
+  monthlyRatePct: "",
+  minPaymentPct: "5",
+  liquid: true,
+  currency: DEFAULT_CURRENCY,
+  investmentKind: "",
+  annualRatePct: "",
+  openDate: "",
+  maturityDate: "",
+};
+const centsToInput = (cents?: number) => String((cents || 0) / 100);
+
+function AccountsTab({
+  accounts,
+  setAccounts,
+  txs,
+  summary,
+  onReconcile,
+}: {
+  accounts: Account[];
+  setAccounts: (fn: (prev: Account[]) => Account[]) => void;
+  txs: Tx[];
+  summary: ReturnType<typeof computeBalances>;
+  onReconcile: (accountId: string) => void;
+}) {
+  const [draft, setDraft] = useState<AccountDraft>(emptyAccountDraft);
+  const onDraft = (k: keyof AccountDraft, v: any) => setDraft((d) => ({ ...d, [k]: v }));
+  const isCredit = draft.type === ACCOUNT_TYPES.CREDIT;
+
+  const startEdit = (a: Account) =>
+    setDraft({
+      id: a.id,
+      name: a.name,
+      type: a.type,
+      initialBalance: centsToInput(a.initialBalanceCents),
+      creditLimit: centsToInput(a.creditLimitCents),
+      initialDebt: centsToInput(a.initialDebtCents),
+      statementDay: a.statementDay ? String(a.statementDay) : "",
+      dueDay: a.dueDay ? String(a.dueDay) : "",
+      monthlyRatePct: a.monthlyRatePct != null ? String(a.monthlyRatePct) : "",
+      minPaymentPct: String(a.minPaymentPct ?? 5),
+      liquid: a.liquid !== false,
+      currency: accountCurrency(a),
+      investmentKind: a.investment?.kind || "",
+      annualRatePct: a.investment?.annualRatePct != null ? String(a.investment.annualRatePct) : "",
+      openDate: a.investment?.openDate || "",
+      maturityDate: a.investment?.maturityDate || "",
+    });
+
+  const save = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      alert("Nombre requerido");
+      return;
+    }
+    if (accounts.some((a) => a.id !== draft.id && a.name.trim().toLowerCase() === name.toLowerCase())) {
+      alert("Ya existe una cuenta con ese nombre");
+      return;
+    }
+    const day = (v: string) => {
+      const n = parseInt(v, 10);
+      return n >= 1 && n <= 31 ? n : undefined;
+    };
+    const pct = (v: string) => (v.trim() === "" || isNaN(Number(v)) ? undefined : Number(v));
+    const statementDay = day(draft.statementDay);
+    const dueDay = day(draft.dueDay);
+    if (isCredit && !statementDay !== !dueDay) {
+      alert("Indica tanto el día de corte como el de pago (1 a 31)");
+      return;
+    }
+    const currency = draft.currency.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      alert("Moneda inválida: usa el código de 3 letras (COP, USD, EUR…)");
+      return;
+    }
+    const investment: InvestmentInfo = { kind: draft.investmentKind || "OTRA" };
+    if (!isCredit && draft.investmentKind === "CDT") {
+      investment.annualRatePct = pct(draft.annualRatePct);
+      investment.openDate = draft.openDate || undefined;
+      investment.maturityDate = draft.maturityDate || undefined;
+      if (investment.openDate && investment.maturityDate && investment.maturityDate <= investment.openDate) {
+        alert("El vencimiento debe ser posterior a la apertura");
+        return;
+      }
+    }
+    const before = accounts.find((a) => a.id === draft.id);
+    if (
+      before &&
+      accountCurrency(before) !== currency &&
+      txs.some((t) => t.accountFromId === before.id || t.accountToId === before.id) &&
+      !confirm(`La cuenta tiene movimientos en ${accountCurrency(before)}; sus montos no se convierten a ${currency}. ¿Cambiar la moneda?`)
+    )
+      return;
+    const fields: Partial<Account> = isCredit
+      ? {
+          initialBalanceCents: undefined,
+          creditLimitCents: toCents(draft.creditLimit),
+          initialDebtCents: toCents(draft.initialDebt),
+          statementDay,
+          dueDay,
+          monthlyRatePct: pct(draft.monthlyRatePct),
+          minPaymentPct: pct(draft.minPaymentPct),
+          liquid: undefined,
+        }
+      : {
+          initialBalanceCents: toCents(draft.initialBalance),
+          creditLimitCents: undefined,
+          initialDebtCents: undefined,
+          liquid: draft.liquid,
+          investment: draft.investmentKind ? investment : undefined,
+        };
+    if (draft.id) {
+      setAccounts((prev) => prev.map((a) => (a.id === draft.id ? { ...a, ...fields, name, type: draft.type, currency } : a)));
+    } else {
+      setAccounts((prev) => [...prev, { ...fields, id: newId(), name, type: draft.type, currency }]);
+    }
+    setDraft(emptyAccountDraft);
+  };
+
+  const move = (id: string, dir: -1 | 1) =>
+    setAccounts((prev) => {
+      const i = prev.findIndex((a) => a.id === id);
+      const j = i + dir;
+      if (i < 0 || j < 0 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+
+  const toggleArchived = (id: string) => setAccounts((prev) => prev.map((a) => (a.id === id ? { ...a, archived: !a.archived } : a)));
+
+  const remove = (a: Account) => {
+    if (txs.some((t) => t.accountFromId === a.id || t.accountToId === a.id)) {
+      alert("La cuenta tiene movimientos. Archívala en lugar de borrarla.");
+      return;
+    }
+    if (!confirm(`¿Borrar la cuenta "${a.name}"?`)) return;
+    setAccounts((prev) => prev.filter((x) => x.id !== a.id));
+    if (draft.id === a.id) setDraft(emptyAccountDraft);
+  };
+
+  return (
+    <section style={{ display: "grid", gap: 16 }}>
+      {/* Formulario de cuenta */}
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>{draft.id ? "Editar cuenta" : "Nueva cuenta"}</div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Nombre</div>
+            <input type="text" value={draft.name} onChange={(e) => onDraft("name", e.target.value)} />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Tipo</div>
+            <select value={draft.type} onChange={(e) => onDraft("type", e.target.value)}>
+              <option value={ACCOUNT_TYPES.CASH}>Efectivo / débito</option>
+              <option value={ACCOUNT_TYPES.CREDIT}>Crédito</option>
+            </select>
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Moneda</div>
+            <input type="text" list="currency-codes" maxLength={3} value={draft.currency} onChange={(e) => onDraft("currency", e.target.value.toUpperCase())} />
+            <datalist id="currency-codes">
+              {CURRENCIES.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+          </div>
+        </div>
+
+        {isCredit ? (
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16, marginTop: 12 }}>
+            <div>
+              <div style={{ fontSize: 13, opacity: 0.7 }}>Cupo ({draft.currency})</div>
+              <input type="number" inputMode="decimal" step="any" value={draft.creditLimit} onChange={(e) => onDraft("creditLimit", e.target.value)} />
+            </div>
+            <div>
+              <div style={{ fontSize: 13, opacity: 0.7 }}>Deuda inicial ({draft.currency})</div>
+              <input type="number" inputMode="decimal" step="any" value={draft.initialDebt} onChange={(e) => onDraft("initialDebt", e.target.value)} />
+            </div>
+            <div>
+              <div style={{ fontSize: 13, opacity: 0.7 }}>Día de corte</div>
+              <input type="number" inputMode="numeric" min={1} max={31} value={draft.statementDay} onChange={(e) => onDraft("statementDay", e.target.value)} />
+            </div>
+            <div>
+              <div style={{ fontSize: 13, opacity: 0.7 }}>Día límite de pago</div>
+              <input type="number" inputMode="numeric" min={1} max={31} value={draft.dueDay} onChange={(e) => onDraft("dueDay", e.target.value)} />
+            </div>
+            <div>
+              <div style={{ fontSize: 13, opacity: 0.7 }}>Tasa mensual (%)</div>
+              <input type="number" inputMode="decimal" step="any" value={draft.monthlyRatePct} onChange={(e) => onDraft("monthlyRatePct", e.target.value)} />
+            </div>
+            <div>
+              <div style={{ fontSize: 13, opacity: 0.7 }}>Pago mínimo (% del corte)</div>
+              <input type="number" inputMode="decimal" step="any" value={draft.minPaymentPct} onChange={(e) => onDraft("minPaymentPct", e.target.value)} />
+            </div>
+          </div>
+        ) : (
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16, marginTop: 12 }}>
+            <div>
+              <div style={{ fontSize: 13, opacity: 0.7 }}>Saldo inicial ({draft.currency})</div>
+              <input type="number" inputMode="decimal" step="any" value={draft.initialBalance} onChange={(e) => onDraft("initialBalance", e.target.value)} />
+            </div>
+            <label style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 18 }}>
+              <input type="checkbox" style={{ width: 20, height: 20 }} checked={draft.liquid} onChange={(e) => onDraft("liquid", e.target.checked)} />
+              <span style={{ fontSize: 14 }}>Cuenta en liquidez total</span>
+            </label>
+            <div>
+              <div style={{ fontSize: 13, opacity: 0.7 }}>Inversión</div>
+              <select value={draft.investmentKind} onChange={(e) => onDraft("investmentKind", e.target.value)}>
+                <option value="">No es una inversión</option>
+                {Object.entries(INVESTMENT_KINDS).map(([k, label]) => (
+                  <option key={k} value={k}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {draft.investmentKind === "CDT" && (
+              <>
+                <div>
+                  <div style={{ fontSize: 13, opacity: 0.7 }}>Tasa efectiva anual (%)</div>
+                  <input type="number" inputMode="decimal" step="any" value={draft.annualRatePct} onChange={(e) => onDraft("annualRatePct", e.target.value)} />
+                </div>
+                <div>
+                  <div style={{ fontSize: 13, opacity: 0.7 }}>Fecha de apertura</div>
+                  <input type="date" value={draft.openDate} onChange={(e) => onDraft("openDate", e.target.value)} />
+                </div>
+                <div>
+                  <div style={{ fontSize: 13, opacity: 0.7 }}>Fecha de vencimiento</div>
+                  <input type="date" value={draft.maturityDate} onChange={(e) => onDraft("maturityDate", e.target.value)} />
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+          {draft.id && <button onClick={() => setDraft(emptyAccountDraft)}>Cancelar</button>}
+          <button className="btn-primary" onClick={save}>
+            {draft.id ? "Guardar cambios" : "+ Crear cuenta"}
+          </button>
+        </div>
+      </div>
+
+      {/* Lista de cuentas */}
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Cuentas</div>
+        <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+          {accounts.map((a, i) => {
+            const s = summary.accounts.find((x) => x.account.id === a.id);
+            return (
+              <li key={a.id} style={{ padding: "8px 0", borderTop: `1px solid ${PALETTE.line}`, opacity: a.archived ? 0.6 : 1 }}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+                  <span>
+                    {a.name}
+                    <span style={{ fontSize: 12, opacity: 0.7 }}>
+                      {" "}
+                      · {a.type === ACCOUNT_TYPES.CREDIT ? "Crédito" : a.investment ? INVESTMENT_KINDS[a.investment.kind] : "Efectivo"} · {accountCurrency(a)}
+                      {a.archived ? " · Archivada" : ""}
+                      {a.lastReconciliation ? ` · Conciliada al ${a.lastReconciliation.date}` : ""}
+                    </span>
+                  </span>
+                  <strong>{fmtMoney(s?.balanceCents, accountCurrency(a))}</strong>
+                </div>
+                <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                  <button disabled={i === 0} onClick={() => move(a.id, -1)}>
+                    ↑
+                  </button>
+                  <button disabled={i === accounts.length - 1} onClick={() => move(a.id, 1)}>
+                    ↓
+                  </button>
+                  <button onClick={() => startEdit(a)}>Editar</button>
+                  {!a.archived && <button onClick={() => onReconcile(a.id)}>Conciliar</button>}
+                  <button onClick={() => toggleArchived(a.id)}>{a.archived ? "Restaurar" : "Archivar"}</button>
+                  <button onClick={() => remove(a)}>Borrar</button>
+                </div>
+              </li>
+            );
+          })}
+          {accounts.length === 0 && <div style={{ opacity: 0.6 }}>Sin cuentas</div>}
+        </ul>
+      </div>
+    </section>
+  );
+}
+
+// === Reconciliation screen ===
+type ReconcileResult = { date: string; balanceCents: number; clearedIds: string[]; adjustment: Tx | null };
+
+// The real balance is compared with the movements checked as seen on the statement; any difference left is posted as an adjustment
+function ReconcilePanel({
+  account,
+  accounts,
+  txs,
+  onFinish,
+  onCancel,
+}: {
+  account: Account;
+  accounts: Account[];
+  txs: Tx[];
+  onFinish: (result: ReconcileResult) => void;
+  onCancel: () => void;
+}) {
+  const isCredit = account.type === ACCOUNT_TYPES.CREDIT;
+  const currency = accountCurrency(account);
+  const [date, setDate] = useState(todayStr());
+  const [real, setReal] = useState("");
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const toggle = (id: string) =>
+    setChecked((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const mine = useMemo(
+    () => txs.filter((t) => t && (t.accountFromId === account.id || t.accountToId === account.id) && t.date <= date),
+    [txs, account.id, date]
+  );
+  const pending = mine.filter((t) => !t.cleared).sort((a, b) => a.date.localeCompare(b.date));
+  const balanceOf = (list: Tx[]) => computeBalances(accounts, list, date).accounts.find((s) => s.account.id === account.id)?.balanceCents || 0;
+  const bookCents = balanceOf(txs);
+  const clearedCents = balanceOf(txs.filter((t) => t && (t.cleared || checked.has(t.id))));
+  // Cards are reconciled against the debt the bank reports
+  const realCents = real.trim() === "" ? null : isCredit ? -toCents(real) : toCents(real);
+  const diff = realCents == null ? null : realCents - clearedCents;
+  const shown = (cents: number) => fmtMoney(isCredit ? -cents : cents, currency);
+  // Effect of one movement on this account's balance
+  const effect = (t: Tx) => balanceOf([t]) - balanceOf([]);
+
+  const finish = () => {
+    if (realCents == null || !date) {
+      alert(`Ingresa la fecha y ${isCredit ? "la deuda" : "el saldo"} del extracto`);
+      return;
+    }
+    if (diff && !confirm(`Queda una diferencia de ${fmtMoney(diff, currency)}. ¿Registrar un ajuste por ese valor y cerrar la conciliación?`)) return;
+    const now = Date.now();
+    const adjustment: Tx | null = diff
+      ? {
+          id: newId(),
+          type: diff > 0 ? "INGRESO" : "GASTO",
+          date,
+          amountCents: Math.abs(diff),
+          accountFromId: diff > 0 ? null : account.id,
+          accountToId: diff > 0 ? account.id : null,
+          categoryId: null,
+          paymentMethod: diff > 0 ? null : PAYMENT_METHODS.find((m) => m.accountId === account.id)?.id || "OTRA",
+          note: "Ajuste de conciliación",
+          createdAt: now,
+          updatedAt: now,
+          cleared: true,
+          reconciled: true,
+        }
+      : null;
+    onFinish({ date, balanceCents: realCents, clearedIds: mine.filter((t) => !t.reconciled && (t.cleared || checked.has(t.id))).map((t) => t.id), adjustment });
+  };
+
+  return (
+    <div className="card">
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>Conciliar {account.name}</div>
+      {account.lastReconciliation && (
+        <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 8 }}>
+          Última conciliación: {account.lastReconciliation.date} · {shown(account.lastReconciliation.balanceCents)}
+        </div>
+      )}
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
+        <div>
+          <div style={{ fontSize: 13, opacity: 0.7 }}>Fecha del extracto</div>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+        </div>
+        <div>
+          <div style={{ fontSize: 13, opacity: 0.7 }}>
+            {isCredit ? "Deuda" : "Saldo"} según el banco ({currency})
+          </div>
+          <input inputMode="decimal" placeholder="0" value={real} onChange={(e) => setReal(e.target.value)} />
+        </div>
+      </div>
+
+      <ul style={{ margin: "12px 0 0", padding: 0, listStyle: "none" }}>
+        {[
+          { label: isCredit ? "Deuda en la app" : "Saldo en la app", cents: bookCents },
+          { label: "Verificado", cents: clearedCents },
+        ].map((r) => (
+          <li key={r.label} style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+            <span>{r.label}</span>
+            <strong>{shown(r.cents)}</strong>
+          </li>
+        ))}
+        {diff != null && (
+          <li style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+            <span>Diferencia</span>
+            <strong style={{ color: diff ? "#C0392B" : undefined }}>{diff ? fmtMoney(diff, currency) : "Cuadra ✓"}</strong>
+          </li>
+        )}
+      </ul>
+
+      <div style={{ fontWeight: 600, margin: "16px 0 8px" }}>Movimientos sin verificar</div>
+      <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 8 }}>Marca los que aparecen en el extracto.</div>
+      <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+        {pending.map((t) => (
+          <li key={t.id} style={{ display: "flex", gap: 8, alignItems: "center", padding: "6px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+            <input type="checkbox" style={{ width: 18, height: 18 }} checked={checked.has(t.id)} onChange={() => toggle(t.id)} />
+            <span style={{ whiteSpace: "nowrap" }}>{t.date}</span>
+            <span style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{t.note || t.type}</span>
+            <strong style={{ whiteSpace: "nowrap" }}>{fmtMoney(effect(t), currency)}</strong>
+          </li>
+        ))}
+        {pending.length === 0 && <div style={{ opacity: 0.6 }}>Todo está verificado</div>}
+      </ul>
+
+      <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+        <button className="btn-primary" onClick={finish}>
+          Terminar conciliación
+        </button>
+        <button onClick={onCancel}>Cancelar</button>
+      </div>
+    </div>
+  );
+}
+
+// === Net worth screen ===
+function NetWorthTab({
+  accounts,
+  txs,
+  valuations,
+  rates,
+  currency,
+}: {
+  accounts: Account[];
+  txs: Tx[];
+  valuations: Valuation[];
+  rates: FxRate[];
+  currency: string;
+}) {
+  const [asOf, setAsOf] = useState(todayStr());
+  const history = useMemo(() => netWorthHistory(accounts, txs, rates, currency, valuations), [accounts, txs, rates, currency, valuations]);
+  const snapshot = useMemo(
+    () => netWorthAt(accounts, txs, rates, currency, asOf || todayStr(), valuations),
+    [accounts, txs, rates, currency, asOf, valuations]
+  );
+  // Only accounts that ever had a balance get a series
+  const series = accounts.filter((a) => history.points.some((p) => p[a.id]));
+  const money = (v: any) => fmtMoney(Number(v), currency);
+  const missing = [...new Set([...history.missing, ...snapshot.missing])];
+
+  return (
+    <section style={{ display: "grid", gap: 16 }}>
+      <div className="card">
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12, flexWrap: "wrap" }}>
+          <div>
+            <div style={{ opacity: 0.7, fontSize: 14, marginBottom: 6 }}>Patrimonio neto</div>
+            <div style={{ fontSize: 28, fontWeight: 700 }}>{fmtMoney(snapshot.totalCents, currency)}</div>
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Saldos al</div>
+            <input type="date" value={asOf} max={todayStr()} onChange={(e) => setAsOf(e.target.value)} />
+          </div>
+        </div>
+        {missing.length > 0 && (
+          <div style={{ fontSize: 12, color: "#C0392B", marginTop: 6 }}>
+            Sin tasa de cambio para {missing.join(", ")}: esas cuentas no se incluyen en el total.
+          </div>
+        )}
+        <ul style={{ margin: "12px 0 0", padding: 0, listStyle: "none" }}>
+          {snapshot.perAccount
+            .filter((s) => s.balanceCents || !s.account.archived)
+            .map((s) => (
+              <li key={s.account.id} style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+                <span>
+                  {s.account.name}
+                  {s.account.type === ACCOUNT_TYPES.CREDIT ? " (deuda)" : ""}
+                  {s.account.archived ? " (archivada)" : ""}
+                </span>
+                <strong>
+                  {fmtMoney(s.balanceCents, accountCurrency(s.account))}
+                  {accountCurrency(s.account) !== currency && s.convertedCents != null && (
+                    <span style={{ fontSize: 12, fontWeight: 400, opacity: 0.7 }}> ≈ {fmtMoney(s.convertedCents, currency)}</span>
+                  )}
+                </strong>
+              </li>
+            ))}
+        </ul>
+      </div>
+
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Evolución mes a mes</div>
+        {history.points.length > 0 ? (
+          <div style={{ height: 320 }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={history.points} stackOffset="sign">
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis tickFormatter={money} width={96} />
+                <Tooltip formatter={money} />
+                <Legend />
+                {series.map((a, i) => (
+                  <Bar key={a.id} dataKey={a.id} name={a.name} stackId="cuentas" fill={CATEGORY_COLORS[i % CATEGORY_COLORS.length]} />
+                ))}
+                <Line type="monotone" dataKey="total" name="Patrimonio neto" stroke={PALETTE.accent} strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <div style={{ opacity: 0.6 }}>Sin movimientos</div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+// === Investments screen ===
+function InvestmentsTab({
+  accounts,
+  txs,
+  valuations,
+  setValuations,
+  onAccounts,
+}: {
+  accounts: Account[];
+  txs: Tx[];
+  valuations: Valuation[];
+  setValuations: (fn: (prev: Valuation[]) => Valuation[]) => void;
+  onAccounts: () => void;
+}) {
+  const investments = accounts.filter((a) => a.investment && (!a.archived || valuations.some((v) => v.accountId === a.id)));
+  const [draft, setDraft] = useState({ accountId: "", date: todayStr(), value: "", note: "" });
+  const accountId = investments.some((a) => a.id === draft.accountId) ? draft.accountId : investments[0]?.id || "";
+  const summaries = useMemo(
+    () => investments.map((a) => ({ account: a, summary: investmentSummary(accounts, a, txs, valuations) })),
+    [accounts, txs, valuations] // eslint-disable-line
+  );
+
+  const add = () => {
+    const valueCents = toCents(draft.value);
+    if (!accountId || !draft.date || draft.value.trim() === "" || valueCents < 0) {
+      alert("Elige la cuenta, la fecha y el valor");
+      return;
+    }
+    setValuations((prev) => [
+      ...prev.filter((v) => !(v.accountId === accountId && v.date === draft.date)), // one valuation per account and day
+      { id: newId(), accountId, date: draft.date, valueCents, note: draft.note.trim() || null },
+    ]);
+    setDraft((d) => ({ ...d, value: "", note: "" }));
+  };
+
+  if (!investments.length)
+    return (
+      <section className="card">
+        <div style={{ opacity: 0.6, marginBottom: 8 }}>Ninguna cuenta está marcada como inversión (CDT, fondo, acciones…).</div>
+        <button style={{ width: "auto" }} onClick={onAccounts}>
+          Ir a cuentas
+        </button>
+      </section>
+    );
+
+  return (
+    <section style={{ display: "grid", gap: 16 }}>
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Registrar valoración</div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Cuenta</div>
+            <select value={accountId} onChange={(e) => setDraft((d) => ({ ...d, accountId: e.target.value }))}>
+              {investments.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Fecha</div>
+            <input type="date" value={draft.date} max={todayStr()} onChange={(e) => setDraft((d) => ({ ...d, date: e.target.value }))} />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Valor de mercado ({accountCurrency(accounts.find((a) => a.id === accountId))})</div>
+            <input type="number" inputMode="decimal" step="any" value={draft.value} onChange={(e) => setDraft((d) => ({ ...d, value: e.target.value }))} />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Nota</div>
+            <input
+              type="text"
+              placeholder="Extracto, valor de la unidad…"
+              value={draft.note}
+              onChange={(e) => setDraft((d) => ({ ...d, note: e.target.value }))}
+            />
+          </div>
+        </div>
+        <button className="btn-primary" style={{ marginTop: 12 }} onClick={add}>
+          Guardar valoración
+        </button>
+        <div style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>
+          Aportes y retiros se registran como transferencias hacia o desde la cuenta; los rendimientos que se abonan a ella cuentan como ganancia.
+        </div>
+      </div>
+
+      {summaries.map(({ account: a, summary: s }) => {
+        const currency = accountCurrency(a);
+        const mine = valuations.filter((v) => v.accountId === a.id).sort((x, y) => y.date.localeCompare(x.date));
+        return (
+          <div key={a.id} className="card">
+            <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+              <div style={{ fontWeight: 600 }}>
+                {a.name} <span style={{ fontSize: 12, fontWeight: 400, opacity: 0.7 }}>· {INVESTMENT_KINDS[a.investment!.kind]}</span>
+              </div>
+              <strong>{fmtMoney(s.valueCents, currency)}</strong>
+            </div>
+            {!s.valued && <div style={{ fontSize: 12, opacity: 0.7 }}>Sin valoraciones: se usa el saldo en libros</div>}
+            <ul style={{ margin: "8px 0 0", padding: 0, listStyle: "none" }}>
+              {[
+                { label: "Aportado", value: fmtMoney(s.contributedCents, currency) },
+                { label: "Retirado", value: fmtMoney(s.withdrawnCents, currency) },
+                { label: "Ganancia", value: fmtMoney(s.gainCents, currency), bad: s.gainCents < 0 },
+                { label: "Rentabilidad simple", value: fmtPct(s.simpleReturn) },
+                { label: "Rentabilidad anual (TIR)", value: fmtPct(s.annualReturn) },
+                ...(s.cdt
+                  ? [
+                      {
+                        label: "Vencimiento",
+                        value: `${s.cdt.maturityDate} · ${s.cdt.daysLeft > 0 ? `en ${s.cdt.daysLeft} días` : s.cdt.daysLeft === 0 ? "hoy" : "vencido"}`,
+                      },
+                      { label: "Interés esperado", value: fmtMoney(s.cdt.expectedInterestCents, currency) },
+                      { label: "Valor al vencimiento", value: fmtMoney(s.cdt.maturityValueCents, currency) },
+                    ]
+                  : []),
+              ].map((r) => (
+                <li key={r.label} style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+                  <span>{r.label}</span>
+                  <strong style={{ color: "bad" in r && r.bad ? "#C0392B" : undefined }}>{r.value}</strong>
+                </li>
+              ))}
+            </ul>
+            {mine.length > 0 && (
+              <>
+                <div style={{ fontSize: 13, opacity: 0.7, margin: "12px 0 4px" }}>Valoraciones</div>
+                <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+                  {mine.map((v) => (
+                    <li
+                      key={v.id}
+                      style={{ display: "flex", alignItems: "center", gap: 8, padding: "6px 0", borderTop: `1px solid ${PALETTE.line}`, fontSize: 14 }}
+                    >
+                      <span style={{ flex: 1 }}>
+                        {v.date}
+                        {v.note && <span style={{ fontSize: 12, opacity: 0.7 }}> · {v.note}</span>}
+                      </span>
+                      <strong>{fmtMoney(v.valueCents, currency)}</strong>
+                      <button
+                        style={{ width: "auto", height: 28, padding: "0 10px", fontSize: 12 }}
+                        onClick={() => setValuations((prev) => prev.filter((x) => x.id !== v.id))}
+                      >
+                        Borrar
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </section>
+  );
+}
+
+// === Currencies screen ===
+function CurrenciesTab({
+  accounts,
+  rates,
+  setRates,
+  settings,
+  setSettings,
+}: {
+  accounts: Account[];
+  rates: FxRate[];
+  setRates: (fn: (prev: FxRate[]) => FxRate[]) => void;
+  settings: Settings;
+  setSettings: (fn: (prev: Settings) => Settings) => void;
+}) {
+  const base = settings.baseCurrency;
+  const [draft, setDraft] = useState({ from: "USD", to: base, rate: "", date: todayStr() });
+  const onDraft = (k: keyof typeof draft, v: string) => setDraft((d) => ({ ...d, [k]: v }));
+  const inUse = [...new Set([base, ...accounts.filter((a) => !a.archived).map(accountCurrency), ...rates.flatMap((r) => [r.from, r.to])])];
+
+  const add = () => {
+    const from = draft.from.trim().toUpperCase();
+    const to = draft.to.trim().toUpperCase();
+    const rate = parseRate(draft.rate);
+    if (!/^[A-Z]{3}$/.test(from) || !/^[A-Z]{3}$/.test(to) || from === to) {
+      alert("Elige dos monedas distintas (código de 3 letras)");
+      return;
+    }
+    if (!rate || !draft.date) {
+      alert("Tasa o fecha inválida");
+      return;
+    }
+    // one rate per pair and day: entering it again corrects it
+    setRates((prev) => [...prev.filter((r) => !(r.from === from && r.to === to && r.date === draft.date)), { id: newId(), from, to, rate, date: draft.date }]);
+    setDraft((d) => ({ ...d, rate: "" }));
+  };
+  const importFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e: any) => {
+      const { rates: imported, errors } = parseRatesFile(e.target.result as string);
+      if (errors.length && !confirm(`${errors.slice(0, 5).join("\n")}\n\n¿Importar las ${imported.length} tasas válidas?`)) return;
+      const key = (r: FxRate) => `${r.from}|${r.to}|${r.date}`;
+      const keys = new Set(imported.map(key));
+      setRates((prev) => [...prev.filter((r) => !keys.has(key(r))), ...imported]);
+      alert(`${imported.length} tasas importadas`);
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <section style={{ display: "grid", gap: 16 }}>
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Moneda base</div>
+        <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 8 }}>Liquidez total, reportes y presupuestos se muestran convertidos a esta moneda.</div>
+        <select value={base} onChange={(e) => setSettings((prev) => ({ ...prev, baseCurrency: e.target.value }))}>
+          {[...new Set([...CURRENCIES, ...inUse])].map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        <ul style={{ margin: "12px 0 0", padding: 0, listStyle: "none" }}>
+          {inUse
+            .filter((c) => c !== base)
+            .map((c) => {
+              const rate = fxRate(rates, c, base);
+              return (
+                <li key={c} style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+                  <span>1 {c}</span>
+                  {rate ? <strong>{`${fmtRate(rate)} ${base}`}</strong> : <span style={{ color: "#C0392B" }}>Sin tasa</span>}
+                </li>
+              );
+            })}
+        </ul>
+      </div>
+
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Nueva tasa de cambio</div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>De</div>
+            <input type="text" list="currency-codes" maxLength={3} value={draft.from} onChange={(e) => onDraft("from", e.target.value.toUpperCase())} />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>A</div>
+            <input type="text" list="currency-codes" maxLength={3} value={draft.to} onChange={(e) => onDraft("to", e.target.value.toUpperCase())} />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>
+              1 {draft.from || "…"} = ? {draft.to || "…"}
+            </div>
+            <input type="text" inputMode="decimal" placeholder="0" value={draft.rate} onChange={(e) => onDraft("rate", e.target.value)} />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Fecha</div>
+            <input type="date" value={draft.date} onChange={(e) => onDraft("date", e.target.value)} />
+          </div>
+        </div>
+        <datalist id="currency-codes">
+          {CURRENCIES.map((c) => (
+            <option key={c} value={c} />
+          ))}
+        </datalist>
+        <div style={{ display: "flex", gap: 8, marginTop: 12, alignItems: "center" }}>
+          <button className="btn-primary" onClick={add}>
+            + Agregar tasa
+          </button>
+          <label style={{ cursor: "pointer" }}>
+            Importar archivo
+            <input
+              type="file"
+              accept=".csv,.txt,.json"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                if (e.target.files && e.target.files[0]) importFile(e.target.files[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginTop: 6 }}>CSV con columnas de, a, tasa y fecha (AAAA-MM-DD), o JSON con los mismos campos.</div>
+      </div>
+
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Tasas registradas</div>
+        <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+          {[...rates]
+            .sort((a, b) => b.date.localeCompare(a.date) || a.from.localeCompare(b.from))
+            .map((r) => (
+              <li
+                key={r.id}
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  gap: 8,
+                  padding: "6px 0",
+                  borderTop: `1px solid ${PALETTE.line}`,
+                }}
+              >
+                <span>
+                  <span style={{ opacity: 0.7 }}>{r.date}</span> · 1 {r.from} = {fmtRate(r.rate)} {r.to}
+                </span>
+                <button style={{ width: "auto" }} onClick={() => setRates((prev) => prev.filter((x) => x.id !== r.id))}>
+                  Borrar
+                </button>
+              </li>
+            ))}
+          {rates.length === 0 && <div style={{ opacity: 0.6 }}>Sin tasas</div>}
+        </ul>
+      </div>
+    </section>
+  );
+}
+
+// === Categories screen ===
+type CategoryDraft = { id: string | null; name: string; kind: Category["kind"]; parentId: string; color: string; icon: string };
+const emptyCategoryDraft: CategoryDraft = { id: null, name: "", kind: "GASTO", parentId: "", color: CATEGORY_COLORS[0], icon: CATEGORY_ICONS[0] };
+
+function CategoriesTab({
+  categories,
+  setCategories,
+  txs,
+  onUpdateTxs,
+  setBudgets,
+  setRules,
+  setPayees,
+}: {
+  categories: Category[];
+  setCategories: (fn: (prev: Category[]) => Category[]) => void;
+  txs: Tx[];
+  onUpdateTxs: (label: string, update: (t: Tx) => Tx | null) => number;
+  setBudgets: (fn: (prev: Budget[]) => Budget[]) => void;
+  setRules: (fn: (prev: RecurringRule[]) => RecurringRule[]) => void;
+  setPayees: (fn: (prev: Payee[]) => Payee[]) => void;
+}) {
+  const [draft, setDraft] = useState<CategoryDraft>(emptyCategoryDraft);
+  const [removing, setRemoving] = useState<{ id: string; targetId: string } | null>(null);
+  const onDraft = (k: keyof CategoryDraft, v: any) => setDraft((d) => ({ ...d, [k]: v }));
+  const hasChildren = (id: string | null) => !!id && categories.some((c) => c.parentId === id);
+  const uses = (t: Tx, id: string) => t.categoryId === id || !!t.splits?.some((l) => l.categoryId === id);
+  const usage = (id: string) => txs.filter((t) => uses(t, id)).length;
+
+  const parentOptions = categories.filter((c) => c.kind === draft.kind && !c.parentId && c.id !== draft.id);
+
+  const startEdit = (c: Category) =>
+    setDraft({ id: c.id, name: c.name, kind: c.kind, parentId: c.parentId || "", color: c.color || CATEGORY_COLORS[0], icon: c.icon || CATEGORY_ICONS[0] });
+
+  const save = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      alert("Nombre requerido");
+      return;
+    }
+    const parentId = draft.parentId || null;
+    if (categories.some((c) => c.id !== draft.id && c.kind === draft.kind && (c.parentId || null) === parentId && c.name.trim().toLowerCase() === name.toLowerCase())) {
+      alert("Ya existe una categoría con ese nombre");
+      return;
+    }
+    const fields = { name, parentId, color: draft.color, icon: draft.icon };
+    if (draft.id) setCategories((prev) => prev.map((c) => (c.id === draft.id ? { ...c, ...fields } : c)));
+    else setCategories((prev) => [...prev, { ...fields, id: newId(), kind: draft.kind }]);
+    setDraft(emptyCategoryDraft);
+  };
+
+  // Deleting and merging are the same operation: move transactions and children to the target, then drop the category.
+  // Its budget moves too unless the target has one; rule templates and payee defaults follow (or are cleared on delete).
+  const confirmRemove = () => {
+    if (!removing) return;
+    const cat = categories.find((c) => c.id === removing.id);
+    if (!cat) return;
+    const target = categories.find((c) => c.id === removing.targetId) || null;
+    const inUse = usage(cat.id) > 0 || hasChildren(cat.id);
+    if (inUse && !target) {
+      alert("Elige a qué categoría pasar sus movimientos");
+      return;
+    }
+    if (target && txs.some((t) => t.reconciled && uses(t, cat.id))) {
+      alert(`"${cat.name}" tiene movimientos conciliados. Desbloquéalos primero.`);
+      return;
+    }
+    if (!confirm(target ? `¿Fusionar "${cat.name}" en "${categoryPath(categories, target.id)}"?` : `¿Borrar "${cat.name}"?`)) return;
+    if (target) {
+      const newParent = target.parentId || target.id;
+      const move = (id: string | null) => (id === cat.id ? target.id : id);
+      onUpdateTxs(`Fusionar categoría "${cat.name}"`, (t) =>
+        uses(t, cat.id)
+          ? {
+              ...t,
+              categoryId: move(t.categoryId),
+              ...(t.splits ? { splits: t.splits.map((l) => ({ ...l, categoryId: move(l.categoryId) })) } : {}),
+            }
+          : null
+      );
+      setCategories((prev) => prev.filter((c) => c.id !== cat.id).map((c) => (c.parentId === cat.id ? { ...c, parentId: newParent } : c)));
+    } else {
+      setCategories((prev) => prev.filter((c) => c.id !== cat.id));
+    }
+    const moveTo = target?.id ?? null;
+    setRules((prev) => (prev || []).map((r) => (r.tx.categoryId === cat.id ? { ...r, tx: { ...r.tx, categoryId: moveTo } } : r)));
+    setPayees((prev) => (prev || []).map((p) => (p.defaultCategoryId === cat.id ? { ...p, defaultCategoryId: moveTo, updatedAt: Date.now() } : p)));
+    setBudgets((prev) =>
+      (prev || []).flatMap((b) =>
+        b.categoryId !== cat.id ? [b] : moveTo && !(prev || []).some((x) => x.categoryId === moveTo) ? [{ ...b, categoryId: moveTo }] : []
+      )
+    );
+    setRemoving(null);
+    if (draft.id === cat.id) setDraft(emptyCategoryDraft);
+  };
+
+  return (
+    <section style={{ display: "grid", gap: 16 }}>
+      {/* Formulario de categoría */}
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>{draft.id ? "Editar categoría" : "Nueva categoría"}</div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Nombre</div>
+            <input type="text" value={draft.name} onChange={(e) => onDraft("name", e.target.value)} />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Tipo</div>
+            <select value={draft.kind} disabled={!!draft.id} onChange={(e) => setDraft((d) => ({ ...d, kind: e.target.value as Category["kind"], parentId: "" }))}>
+              <option value="GASTO">Gasto</option>
+              <option value="INGRESO">Ingreso</option>
+            </select>
+          </div>
+        </div>
+
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16, marginTop: 12 }}>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Dentro de</div>
+            <select value={draft.parentId} disabled={hasChildren(draft.id)} onChange={(e) => onDraft("parentId", e.target.value)}>
+              <option value="">— Categoría principal —</option>
+              {parentOptions.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.icon} {c.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Ícono</div>
+            <select value={draft.icon} onChange={(e) => onDraft("icon", e.target.value)}>
+              {CATEGORY_ICONS.map((i) => (
+                <option key={i} value={i}>
+                  {i}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div style={{ marginTop: 12 }}>
+          <div style={{ fontSize: 13, opacity: 0.7 }}>Color</div>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 4 }}>
+            {CATEGORY_COLORS.map((col) => (
+              <button
+                key={col}
+                aria-label={col}
+                onClick={() => onDraft("color", col)}
+                style={{ width: 32, height: 32, padding: 0, borderRadius: 16, background: col, border: draft.color === col ? `3px solid ${PALETTE.accent}` : "none" }}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+          {draft.id && <button onClick={() => setDraft(emptyCategoryDraft)}>Cancelar</button>}
+          <button className="btn-primary" onClick={save}>
+            {draft.id ? "Guardar cambios" : "+ Crear categoría"}
+          </button>
+        </div>
+      </div>
+
+      {/* Lista de categorías */}
+      {(["GASTO", "INGRESO"] as const).map((kind) => (
+        <div className="card" key={kind}>
+          <div style={{ fontWeight: 600, marginBottom: 8 }}>{kind === "GASTO" ? "Gastos" : "Ingresos"}</div>
+          <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+            {categoryTree(categories, kind).map(({ category: c, depth }) => (
+              <li key={c.id} style={{ padding: "8px 0", paddingLeft: depth * 20, borderTop: `1px solid ${PALETTE.line}` }}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+                  <span>
+                    <span style={{ display: "inline-block", width: 10, height: 10, borderRadius: 5, background: c.color, marginRight: 6 }} />
+                    {depth ? "› " : ""}
+                    {c.icon} {c.name}
+                  </span>
+                  <span style={{ fontSize: 12, opacity: 0.7 }}>{usage(c.id)} mov.</span>
+                </div>
+                <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                  <button onClick={() => startEdit(c)}>Editar</button>
+                  <button onClick={() => setRemoving({ id: c.id, targetId: "" })}>Borrar / fusionar</button>
+                </div>
+                {removing?.id === c.id && (
+                  <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                    <select value={removing.targetId} onChange={(e) => setRemoving({ id: c.id, targetId: e.target.value })}>
+                      <option value="">{usage(c.id) || hasChildren(c.id) ? "Pasar movimientos a…" : "— Solo borrar —"}</option>
+                      {categoryTree(categories, kind)
+                        .filter((x) => x.category.id !== c.id && x.category.parentId !== c.id)
+                        .map(({ category: o, depth: d }) => (
+                          <option key={o.id} value={o.id}>
+                            {d ? "\u00A0\u00A0\u00A0› " : ""}
+                            {o.icon} {o.name}
+                          </option>
+                        ))}
+                    </select>
+                    <button onClick={() => setRemoving(null)}>Cancelar</button>
+                    <button className="btn-primary" onClick={confirmRemove}>
+                      Confirmar
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </section>
+  );
+}
+
+// === Payees screen ===
+type PayeeDraft = { id: string | null; name: string; defaultCategoryId: string };
+const emptyPayeeDraft: PayeeDraft = { id: null, name: "", defaultCategoryId: "" };
+
+function PayeesTab({
+  payees,
+  setPayees,
+  categories,
+  txs,
+  onUpdateTxs,
+  loans,
+  setLoans,
+}: {
+  payees: Payee[];
+  setPayees: (fn: (prev: Payee[]) => Payee[]) => void;
+  categories: Category[];
+  txs: Tx[];
+  onUpdateTxs: (label: string, update: (t: Tx) => Tx | null) => number;
+  loans: Loan[];
+  setLoans: (fn: (prev: Loan[]) => Loan[]) => void;
+}) {
+  const [draft, setDraft] = useState<PayeeDraft>(emptyPayeeDraft);
+  const [removing, setRemoving] = useState<{ id: string; targetId: string } | null>(null);
+  const usage = (id: string) => txs.filter((t) => t.payeeId === id).length;
+  const sorted = [...payees].sort((a, b) => a.name.localeCompare(b.name));
+
+  const save = () => {
+    const name = draft.name.trim();
+    if (!name) {
+      alert("Nombre requerido");
+      return;
+    }
+    if (payees.some((p) => p.id !== draft.id && normalizeText(p.name) === normalizeText(name))) {
+      alert("Ya existe un beneficiario con ese nombre");
+      return;
+    }
+    const fields = { name, defaultCategoryId: draft.defaultCategoryId || null, updatedAt: Date.now() };
+    if (draft.id) setPayees((prev) => prev.map((p) => (p.id === draft.id ? { ...p, ...fields } : p)));
+    else setPayees((prev) => [...prev, { ...fields, id: newId() }]);
+    setDraft(emptyPayeeDraft);
+  };
+
+  // Like categories: merging moves the movements to the target; deleting alone leaves them without payee
+  const confirmRemove = () => {
+    if (!removing) return;
+    const payee = payees.find((p) => p.id === removing.id);
+    if (!payee) return;
+    const target = payees.find((p) => p.id === removing.targetId) || null;
+    // a loan always needs its person
+    const hasLoans = loans.some((l) => l.payeeId === payee.id);
+    if (hasLoans && !target) {
+      alert(`"${payee.name}" tiene préstamos: fusiónalo con otro beneficiario en lugar de borrarlo`);
+      return;
+    }
+    if (txs.some((t) => t.reconciled && t.payeeId === payee.id)) {
+      alert(`"${payee.name}" tiene movimientos conciliados. Desbloquéalos primero.`);
+      return;
+    }
+    if (!confirm(target ? `¿Fusionar "${payee.name}" en "${target.name}"?` : `¿Borrar "${payee.name}"?`)) return;
+    if (usage(payee.id))
+      onUpdateTxs(target ? `Fusionar beneficiario "${payee.name}"` : `Borrar beneficiario "${payee.name}"`, (t) =>
+        t.payeeId === payee.id ? { ...t, payeeId: target?.id ?? null } : null
+      );
+    if (hasLoans) setLoans((prev) => prev.map((l) => (l.payeeId === payee.id ? { ...l, payeeId: target!.id, updatedAt: Date.now() } : l)));
+    setPayees((prev) => prev.filter((p) => p.id !== payee.id));
+    setRemoving(null);
+    if (draft.id === payee.id) setDraft(emptyPayeeDraft);
+  };
+
+  return (
+    <section style={{ display: "grid", gap: 16 }}>
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>{draft.id ? "Editar beneficiario" : "Nuevo beneficiario"}</div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Nombre</div>
+            <input type="text" value={draft.name} onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))} />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Categoría por defecto</div>
+            <select value={draft.defaultCategoryId} onChange={(e) => setDraft((d) => ({ ...d, defaultCategoryId: e.target.value }))}>
+              <option value="">— Ninguna —</option>
+              {(["GASTO", "INGRESO"] as const).map((kind) =>
+                categoryTree(categories, kind).map(({ category: c, depth }) => (
+                  <option key={c.id} value={c.id}>
+                    {depth ? "\u00A0\u00A0\u00A0› " : ""}
+                    {c.icon} {c.name}
+                  </option>
+                ))
+              )}
+            </select>
+          </div>
+        </div>
+        <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+          {draft.id && <button onClick={() => setDraft(emptyPayeeDraft)}>Cancelar</button>}
+          <button className="btn-primary" onClick={save}>
+            {draft.id ? "Guardar cambios" : "+ Crear beneficiario"}
+          </button>
+        </div>
+      </div>
+
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Beneficiarios</div>
+        <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+          {sorted.map((p) => (
+            <li key={p.id} style={{ padding: "8px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+              <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+                <span>
+                  {p.name}
+                  {p.defaultCategoryId && <span style={{ fontSize: 12, opacity: 0.7 }}> · {categoryLabel(categories, p.defaultCategoryId)}</span>}
+                </span>
+                <span style={{ fontSize: 12, opacity: 0.7 }}>{usage(p.id)} mov.</span>
+              </div>
+              <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                <button onClick={() => setDraft({ id: p.id, name: p.name, defaultCategoryId: p.defaultCategoryId || "" })}>Editar</button>
+                <button onClick={() => setRemoving({ id: p.id, targetId: "" })}>Borrar / fusionar</button>
+              </div>
+              {removing?.id === p.id && (
+                <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                  <select value={removing.targetId} onChange={(e) => setRemoving({ id: p.id, targetId: e.target.value })}>
+                    <option value="">{usage(p.id) ? "— Dejar sus movimientos sin beneficiario —" : "— Solo borrar —"}</option>
+                    {sorted
+                      .filter((o) => o.id !== p.id)
+                      .map((o) => (
+                        <option key={o.id} value={o.id}>
+                          {o.name}
+                        </option>
+                      ))}
+                  </select>
+                  <button onClick={() => setRemoving(null)}>Cancelar</button>
+                  <button className="btn-primary" onClick={confirmRemove}>
+                    Confirmar
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+          {payees.length === 0 && <div style={{ opacity: 0.6 }}>Se crean al escribir un beneficiario nuevo en un movimiento</div>}
+        </ul>
+      </div>
+    </section>
+  );
+}
+
+// === Goals screen ===
+function GoalProgressCard({ goal, account, txs }: { goal: Goal; account?: Account; txs: Tx[] }) {
+  const currency = accountCurrency(account);
+  const p = goalProgress(goal, txs);
+  return (
+    <div>
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+        <span style={{ fontWeight: 600 }}>{goal.name}</span>
+        <span>
+          {fmtMoney(p.savedCents, currency)} / {fmtMoney(goal.targetCents, currency)}
+        </span>
+      </div>
+      <div style={{ height: 8, borderRadius: 4, background: "#FAFEFF", marginTop: 6, overflow: "hidden" }}>
+        <div style={{ width: `${p.pct}%`, height: "100%", background: p.onTrack ? PALETTE.accent : "#F28482" }} />
+      </div>
+      <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+        {account?.name || "Cuenta borrada"} · meta {goal.targetDate}
+      </div>
+      {p.remainingCents > 0 ? (
+        <div style={{ fontSize: 12, marginTop: 2 }}>
+          Faltan {fmtMoney(p.remainingCents, currency)}: {fmtMoney(p.monthlyNeededCents, currency)}/mes
+          {p.monthsLeft > 1 ? ` durante ${p.monthsLeft} meses` : " este mes"}
+          <div style={{ color: p.onTrack ? undefined : "#C0392B" }}>
+            {p.projectedMonth
+              ? `A este ritmo (${fmtMoney(p.paceCents, currency)}/mes) la alcanzas en ${p.projectedMonth}`
+              : "Sin aportes recientes: a este ritmo no se alcanza"}
+          </div>
+        </div>
+      ) : (
+        <div style={{ fontSize: 12, marginTop: 2 }}>🎉 Meta alcanzada</div>
+      )}
+    </div>
+  );
+}
+
+type GoalDraft = { id: string | null; name: string; accountId: string; target: string; targetDate: string };
+// "Inversión - Ahorro" while it is there, else the first active cash account
+function emptyGoalDraft(accounts: Account[]): GoalDraft {
+  const active = accounts.filter((a) => a.type === ACCOUNT_TYPES.CASH && !a.archived);
+  const accountId = (active.find((a) => a.id === "inversion") || active[0])?.id || "";
+  return { id: null, name: "", accountId, target: "0", targetDate: addMonthsToDate(todayStr(), 12) };
+}
+
+function GoalsTab({
+  goals,
+  setGoals,
+  accounts,
+  txs,
+  onUpdateTxs,
+}: {
+  goals: Goal[];
+  setGoals: (fn: (prev: Goal[]) => Goal[]) => void;
+  accounts: Account[];
+  txs: Tx[];
+  onUpdateTxs: (label: string, update: (t: Tx) => Tx | null) => number;
+}) {
+  const [draft, setDraft] = useState<GoalDraft>(() => emptyGoalDraft(accounts));
+  const cashAccounts = accounts.filter((a) => a.type === ACCOUNT_TYPES.CASH && (!a.archived || a.id === draft.accountId));
+  const usage = (id: string) => txs.filter((t) => t.goalId === id).length;
+
+  const save = () => {
+    const name = draft.name.trim();
+    const targetCents = toCents(draft.target);
+    if (!name || targetCents <= 0 || !draft.targetDate) {
+      alert("Indica nombre, monto y fecha de la meta");
+      return;
+    }
+    // an archived account is only kept by a goal that already had it
+    const account = accounts.find((a) => a.id === draft.accountId && a.type === ACCOUNT_TYPES.CASH);
+    if (!account || (account.archived && goals.find((g) => g.id === draft.id)?.accountId !== account.id)) {
+      alert("Elige una cuenta activa para la meta");
+      return;
+    }
+    const fields = { name, accountId: draft.accountId, targetCents, targetDate: draft.targetDate, updatedAt: Date.now() };
+    if (draft.id) setGoals((prev) => prev.map((g) => (g.id === draft.id ? { ...g, ...fields } : g)));
+    else setGoals((prev) => [...prev, { ...fields, id: newId(), createdAt: Date.now() }]);
+    setDraft(emptyGoalDraft(accounts));
+  };
+
+  // The transfers stay where they are, just without the goal
+  const remove = (goal: Goal) => {
+    const n = usage(goal.id);
+    if (txs.some((t) => t.reconciled && t.goalId === goal.id)) {
+      alert(`La meta "${goal.name}" tiene aportes conciliados. Desbloquéalos primero.`);
+      return;
+    }
+    if (!confirm(`¿Borrar la meta "${goal.name}"?${n ? ` Sus ${n} aporte(s) quedan como transferencias normales.` : ""}`)) return;
+    if (n) onUpdateTxs(`Borrar meta "${goal.name}"`, (t) => (t.goalId === goal.id ? { ...t, goalId: null } : null));
+    setGoals((prev) => prev.filter((g) => g.id !== goal.id));
+    if (draft.id === goal.id) setDraft(emptyGoalDraft(accounts));
+  };
+
+  return (
+    <section style={{ display: "grid", gap: 16 }}>
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>{draft.id ? "Editar meta" : "Nueva meta de ahorro"}</div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Nombre</div>
+            <input
+              type="text"
+              placeholder="Viaje, fondo de emergencia…"
+              value={draft.name}
+              onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+            />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Cuenta</div>
+            <select value={draft.accountId} onChange={(e) => setDraft((d) => ({ ...d, accountId: e.target.value }))}>
+              {cashAccounts.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Monto objetivo ({accountCurrency(accounts.find((a) => a.id === draft.accountId))})</div>
+            <input type="number" inputMode="decimal" step="any" value={draft.target} onChange={(e) => setDraft((d) => ({ ...d, target: e.target.value }))} />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Fecha objetivo</div>
+            <input type="date" value={draft.targetDate} onChange={(e) => setDraft((d) => ({ ...d, targetDate: e.target.value }))} />
+          </div>
+        </div>
+        <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+          {draft.id && <button onClick={() => setDraft(emptyGoalDraft(accounts))}>Cancelar</button>}
+          <button className="btn-primary" onClick={save}>
+            {draft.id ? "Guardar cambios" : "+ Crear meta"}
+          </button>
+        </div>
+        <div style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>Los aportes son transferencias hacia la cuenta de la meta con la meta elegida.</div>
+      </div>
+
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Metas</div>
+        <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+          {goals.map((g) => (
+            <li key={g.id} style={{ padding: "8px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+              <GoalProgressCard goal={g} account={accounts.find((a) => a.id === g.accountId)} txs={txs} />
+              <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                <button
+                  onClick={() => setDraft({ id: g.id, name: g.name, accountId: g.accountId, target: centsToInput(g.targetCents), targetDate: g.targetDate })}
+                >
+                  Editar
+                </button>
+                <button onClick={() => remove(g)}>Borrar</button>
+              </div>
+            </li>
+          ))}
+          {goals.length === 0 && <div style={{ opacity: 0.6 }}>Sin metas</div>}
+        </ul>
+      </div>
+    </section>
+  );
+}
+
+// === Loans screen ===
+type LoanDraft = { direction: LoanDirection; person: string; amount: string; accountId: string; date: string; dueDate: string; note: string };
+
+function LoansTab({
+  loans,
+  setLoans,
+  payees,
+  setPayees,
+  accounts,
+  txs,
+  rates,
+  currency,
+  onTxs,
+}: {
+  loans: Loan[];
+  setLoans: (fn: (prev: Loan[]) => Loan[]) => void;
+  payees: Payee[];
+  setPayees: (fn: (prev: Payee[]) => Payee[]) => void;
+  accounts: Account[];
+  txs: Tx[];
+  rates: FxRate[];
+  currency: string; // base currency, for the totals
+  onTxs: (label: string, changes: TxChangeSet) => void;
+}) {
+  const cashAccounts = accounts.filter((a) => a.type === ACCOUNT_TYPES.CASH && !a.archived);
+  const [draft, setDraft] = useState<LoanDraft>({
+    direction: "LENT",
+    person: "",
+    amount: "",
+    accountId: cashAccounts[0]?.id || "",
+    date: todayStr(),
+    dueDate: "",
+    note: "",
+  });
+  const onDraft = (k: keyof LoanDraft, v: string) => setDraft((d) => ({ ...d, [k]: v }));
+  const [paying, setPaying] = useState<{ loanId: string; amount: string; accountId: string; date: string } | null>(null);
+  const [showSettled, setShowSettled] = useState(false);
+  const statuses = useMemo(() => loans.map((l) => loanStatus(l, txs)), [loans, txs]);
+  const personName = (payeeId: string) => payees.find((p) => p.id === payeeId)?.name || "—";
+
+  // Loan money moves with GASTO / INGRESO on one of our accounts, without category
+  const loanTx = (loan: Loan, type: Tx["type"], amountCents: number, accountId: string, date: string, note: string | null): Tx => {
+    const now = Date.now();
+    return {
+      id: newId(),
+      type,
+      date,
+      amountCents,
+      accountFromId: type === "GASTO" ? accountId : null,
+      accountToId: type === "INGRESO" ? accountId : null,
+      categoryId: null,
+      paymentMethod: type === "GASTO" ? PAYMENT_METHODS.find((m) => m.accountId === accountId)?.id || "OTRA" : null,
+      note,
+      payeeId: loan.payeeId,
+      loanId: loan.id,
+      createdAt: now,
+      updatedAt: now,
+    };
+  };
+
+  const create = () => {
+    const name = draft.person.trim();
+    const amountCents = toCents(draft.amount);
+    const account = cashAccounts.find((a) => a.id === draft.accountId);
+    if (!name || amountCents <= 0 || !account || !draft.date) {
+      alert("Indica la persona, el monto, la cuenta y la fecha");
+      return;
+    }
+    let payee = findPayee(payees, name);
+    if (!payee) {
+      payee = { id: newId(), name, updatedAt: Date.now() };
+      setPayees((prev) => [...prev, payee!]);
+    }
+    const loan: Loan = {
+      id: newId(),
+      payeeId: payee.id,
+      direction: draft.direction,
+      currency: accountCurrency(account),
+      dueDate: draft.dueDate || null,
+      note: draft.note.trim() || null,
+      createdAt: Date.now(),
+    };
+    setLoans((prev) => [...prev, loan]);
+    const note = draft.direction === "LENT" ? `Préstamo a ${payee.name}` : `Préstamo de ${payee.name}`;
+    onTxs("Registrar préstamo", [{ before: null, after: loanTx(loan, loanPrincipalType(loan), amountCents, account.id, draft.date, note) }]);
+    setDraft((d) => ({ ...d, person: "", amount: "", dueDate: "", note: "" }));
+  };
+
+  const repay = () => {
+    const st = statuses.find((x) => x.loan.id === paying?.loanId);
+    if (!paying || !st) return;
+    const amountCents = toCents(paying.amount);
+    if (amountCents <= 0 || !paying.accountId || !paying.date) {
+      alert("Monto, cuenta o fecha inválidos");
+      return;
+    }
+    if (amountCents > st.outstandingCents) {
+      alert(`El abono supera el saldo pendiente (${fmtMoney(st.outstandingCents, st.loan.currency)})`);
+      return;
+    }
+    const type = st.loan.direction === "LENT" ? "INGRESO" : "GASTO";
+    onTxs("Registrar abono", [
+      { before: null, after: loanTx(st.loan, type, amountCents, paying.accountId, paying.date, `Abono préstamo ${personName(st.loan.payeeId)}`) },
+    ]);
+    setPaying(null);
+  };
+
+  const remove = (loan: Loan) => {
+    const mine = txs.filter((t) => t.loanId === loan.id);
+    if (!confirm(`¿Borrar el préstamo de ${personName(loan.payeeId)} y sus ${mine.length} movimiento(s)?`)) return;
+    if (mine.some((t) => t.reconciled)) {
+      alert("El préstamo tiene movimientos conciliados. Desbloquéalos primero.");
+      return;
+    }
+    if (mine.length)
+      onTxs(
+        "Borrar préstamo",
+        mine.map((t) => ({ before: t, after: null }))
+      );
+    setLoans((prev) => prev.filter((l) => l.id !== loan.id));
+  };
+
+  // Totals and aging in the base currency; open loans age from their first disbursement
+  const toBase = (cents: number, from: string) => convertCents(cents, from, currency, rates, todayStr());
+  const open = statuses.filter((st) => st.outstandingCents > 0);
+  const missing = [...new Set(open.filter((st) => toBase(st.outstandingCents, st.loan.currency) == null).map((st) => st.loan.currency))];
+  const aging = LOAN_AGING.map((b, i) => {
+    const sum = (direction: LoanDirection) =>
+      open
+        .filter((st) => st.agingIndex === i && st.loan.direction === direction)
+        .reduce((acc, st) => acc + (toBase(st.outstandingCents, st.loan.currency) ?? 0), 0);
+    return { label: b.label, lent: sum("LENT"), borrowed: sum("BORROWED") };
+  });
+  const people = Object.values(
+    open.reduce<Record<string, { payeeId: string; lent: number; borrowed: number }>>((acc, st) => {
+      const entry = (acc[st.loan.payeeId] ??= { payeeId: st.loan.payeeId, lent: 0, borrowed: 0 });
+      const cents = toBase(st.outstandingCents, st.loan.currency) ?? 0;
+      if (st.loan.direction === "LENT") entry.lent += cents;
+      else entry.borrowed += cents;
+      return acc;
+    }, {})
+  ).sort((a, b) => Math.abs(b.lent - b.borrowed) - Math.abs(a.lent - a.borrowed));
+  const shown = statuses.filter((st) => showSettled || st.outstandingCents > 0).sort((a, b) => b.startDate.localeCompare(a.startDate));
+
+  return (
+    <section style={{ display: "grid", gap: 16 }}>
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Nuevo préstamo</div>
+        <div className="seg" style={{ marginBottom: 12 }}>
+          {(
+            [
+              ["LENT", "Presté"],
+              ["BORROWED", "Me prestaron"],
+            ] as const
+          ).map(([k, label]) => (
+            <button key={k} className={draft.direction === k ? "active" : ""} onClick={() => onDraft("direction", k)}>
+              {label}
+            </button>
+          ))}
+        </div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Persona</div>
+            <input type="text" list="loan-people" value={draft.person} onChange={(e) => onDraft("person", e.target.value)} />
+            <datalist id="loan-people">
+              {payees.map((p) => (
+                <option key={p.id} value={p.name} />
+              ))}
+            </datalist>
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Monto ({accountCurrency(accounts.find((a) => a.id === draft.accountId))})</div>
+            <input type="number" inputMode="decimal" step="any" value={draft.amount} onChange={(e) => onDraft("amount", e.target.value)} />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>{draft.direction === "LENT" ? "Sale de" : "Entra a"}</div>
+            <select value={draft.accountId} onChange={(e) => onDraft("accountId", e.target.value)}>
+              {cashAccounts.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Fecha</div>
+            <input type="date" value={draft.date} onChange={(e) => onDraft("date", e.target.value)} />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Fecha de pago acordada</div>
+            <input type="date" value={draft.dueDate} onChange={(e) => onDraft("dueDate", e.target.value)} />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Nota</div>
+            <input type="text" value={draft.note} onChange={(e) => onDraft("note", e.target.value)} />
+          </div>
+        </div>
+        <button className="btn-primary" style={{ marginTop: 12 }} onClick={create}>
+          + Registrar préstamo
+        </button>
+      </div>
+
+      {people.length > 0 && (
+        <div className="card">
+          <div style={{ fontWeight: 600, marginBottom: 8 }}>Saldos por persona</div>
+          <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+            {people.map((p) => {
+              const net = p.lent - p.borrowed;
+              return (
+                <li key={p.payeeId} style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+                  <span>{personName(p.payeeId)}</span>
+                  <strong>{net >= 0 ? `Me debe ${fmtMoney(net, currency)}` : `Le debo ${fmtMoney(-net, currency)}`}</strong>
+                </li>
+              );
+            })}
+          </ul>
+          {missing.length > 0 && (
+            <div style={{ fontSize: 12, color: "#C0392B", marginTop: 6 }}>Sin tasa de cambio para {missing.join(", ")}: no se incluye en los totales.</div>
+          )}
+        </div>
+      )}
+
+      {open.length > 0 && (
+        <div className="card">
+          <div style={{ fontWeight: 600, marginBottom: 8 }}>Antigüedad de los saldos</div>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ textAlign: "left", fontSize: 13, opacity: 0.7 }}>
+                <th>Desde el préstamo</th>
+                <th style={{ textAlign: "right" }}>Me deben</th>
+                <th style={{ textAlign: "right" }}>Debo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {aging.map((r) => (
+                <tr key={r.label} style={{ borderTop: `1px solid ${PALETTE.line}` }}>
+                  <td>{r.label}</td>
+                  <td style={{ textAlign: "right" }}>{r.lent ? fmtMoney(r.lent, currency) : "—"}</td>
+                  <td style={{ textAlign: "right" }}>{r.borrowed ? fmtMoney(r.borrowed, currency) : "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="card">
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, marginBottom: 8 }}>
+          <div style={{ fontWeight: 600 }}>Préstamos</div>
+          <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13 }}>
+            <input type="checkbox" checked={showSettled} onChange={(e) => setShowSettled(e.target.checked)} />
+            Mostrar saldados
+          </label>
+        </div>
+        <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+          {shown.map((st) => {
+            const { loan } = st;
+            const pct = st.principalCents ? Math.min(100, (st.repaidCents / st.principalCents) * 100) : 0;
+            return (
+              <li key={loan.id} style={{ padding: "8px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+                  <span>
+                    {loan.direction === "LENT" ? "Presté a" : "Me prestó"} <strong>{personName(loan.payeeId)}</strong>
+                    {loan.note && <span style={{ fontSize: 12, opacity: 0.7 }}> · {loan.note}</span>}
+                  </span>
+                  <strong>{st.outstandingCents > 0 ? fmtMoney(st.outstandingCents, loan.currency) : "Saldado ✓"}</strong>
+                </div>
+                <div style={{ height: 8, borderRadius: 4, background: "#FAFEFF", marginTop: 6, overflow: "hidden" }}>
+                  <div style={{ width: `${pct}%`, height: "100%", background: PALETTE.accent }} />
+                </div>
+                <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+                  {fmtMoney(st.repaidCents, loan.currency)} de {fmtMoney(st.principalCents, loan.currency)} pagado · desde {st.startDate} ({st.ageDays} días)
+                  {st.lastPaymentDate && ` · último abono ${st.lastPaymentDate}`}
+                  {loan.dueDate && !st.overdueDays && st.outstandingCents > 0 && ` · pago acordado ${loan.dueDate}`}
+                </div>
+                {st.overdueDays != null && (
+                  <div style={{ fontSize: 12, color: "#C0392B" }}>
+                    Vencido hace {st.overdueDays} días ({loan.dueDate})
+                  </div>
+                )}
+                <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                  {st.outstandingCents > 0 && (
+                    <button
+                      onClick={() =>
+                        setPaying({
+                          loanId: loan.id,
+                          amount: centsToInput(st.outstandingCents),
+                          accountId: cashAccounts.find((a) => accountCurrency(a) === loan.currency)?.id || "",
+                          date: todayStr(),
+                        })
+                      }
+                    >
+                      Registrar abono
+                    </button>
+                  )}
+                  <button onClick={() => remove(loan)}>Borrar</button>
+                </div>
+                {paying?.loanId === loan.id && (
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr auto auto", gap: 6, marginTop: 6 }}>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      step="any"
+                      value={paying.amount}
+                      onChange={(e) => setPaying((p) => p && { ...p, amount: e.target.value })}
+                    />
+                    <select value={paying.accountId} onChange={(e) => setPaying((p) => p && { ...p, accountId: e.target.value })}>
+                      {cashAccounts
+                        .filter((a) => accountCurrency(a) === loan.currency)
+                        .map((a) => (
+                          <option key={a.id} value={a.id}>
+                            {a.name}
+                          </option>
+                        ))}
+                    </select>
+                    <input type="date" value={paying.date} onChange={(e) => setPaying((p) => p && { ...p, date: e.target.value })} />
+                    <button onClick={() => setPaying(null)}>Cancelar</button>
+                    <button className="btn-primary" onClick={repay}>
+                      Guardar
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+          {shown.length === 0 && <div style={{ opacity: 0.6 }}>{loans.length ? "Todo está saldado" : "Sin préstamos"}</div>}
+        </ul>
+        <div style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>Los movimientos de préstamos no cuentan como gasto ni como ingreso en los reportes.</div>
+      </div>
+    </section>
+  );
+}
+
+// === Budgets screen ===
+function BudgetsTab({
+  budgets,
+  setBudgets,
+  categories,
+  txs,
+  currency,
+}: {
+  budgets: Budget[];
+  setBudgets: (fn: (prev: Budget[]) => Budget[]) => void;
+  categories: Category[];
+  txs: Tx[]; // already in `currency`
+  currency: string;
+}) {
+  const currentMonth = monthKey(todayStr());
+  const [month, setMonth] = useState(currentMonth);
+  const [draft, setDraft] = useState({ categoryId: "", amount: "0", rollover: false });
+  const months = Array.from({ length: 12 }).map((_, i) => addMonths(currentMonth, -i));
+  const rows = useMemo(() => budgetRows(budgets, categories, txs, month), [budgets, categories, txs, month]);
+  const totals = rows.reduce(
+    (acc, r) => {
+      // parents already include their children's spending
+      if (categories.find((c) => c.id === r.budget.categoryId)?.parentId && rows.some((x) => x.budget.categoryId === rootCategoryId(categories, r.budget.categoryId))) return acc;
+      return { budgeted: acc.budgeted + r.budgetedCents, spent: acc.spent + r.spentCents };
+    },
+    { budgeted: 0, spent: 0 }
+  );
+
+  const save = () => {
+    const amountCents = toCents(draft.amount);
+    if (!draft.categoryId || amountCents <= 0) {
+      alert("Elige una categoría y un monto válido");
+      return;
+    }
+    setBudgets((prev) => {
+      const existing = prev.find((b) => b.categoryId === draft.categoryId);
+      if (existing) return prev.map((b) => (b === existing ? { ...b, amountCents, rollover: draft.rollover } : b));
+      return [...prev, { categoryId: draft.categoryId, amountCents, rollover: draft.rollover, startMonth: month }];
+    });
+    setDraft({ categoryId: "", amount: "0", rollover: false });
+  };
+
+  return (
+    <section style={{ display: "grid", gap: 16 }}>
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Presupuesto mensual</div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Categoría</div>
+            <select
+              value={draft.categoryId}
+              onChange={(e) => {
+                const b = budgets.find((x) => x.categoryId === e.target.value);
+                setDraft({ categoryId: e.target.value, amount: b ? centsToInput(b.amountCents) : draft.amount, rollover: b ? b.rollover : draft.rollover });
+              }}
+            >
+              <option value="">Elegir…</option>
+              {categoryTree(categories, "GASTO").map(({ category: c, depth }) => (
+                <option key={c.id} value={c.id}>
+                  {depth ? "\u00A0\u00A0\u00A0› " : ""}
+                  {c.icon} {c.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Monto mensual ({currency})</div>
+            <input type="number" inputMode="decimal" step="any" value={draft.amount} onChange={(e) => setDraft((d) => ({ ...d, amount: e.target.value }))} />
+          </div>
+        </div>
+        <label style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 12 }}>
+          <input type="checkbox" style={{ width: 20, height: 20 }} checked={draft.rollover} onChange={(e) => setDraft((d) => ({ ...d, rollover: e.target.checked }))} />
+          <span style={{ fontSize: 14 }}>Acumular lo no gastado al mes siguiente</span>
+        </label>
+        <button className="btn-primary" style={{ marginTop: 12 }} onClick={save}>
+          Guardar presupuesto
+        </button>
+      </div>
+
+      <div className="card">
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, marginBottom: 8 }}>
+          <div style={{ fontWeight: 600 }}>Seguimiento</div>
+          <select value={month} onChange={(e) => setMonth(e.target.value)} style={{ width: "auto" }}>
+            {months.map((m) => (
+              <option key={m} value={m}>
+                {m}
+              </option>
+            ))}
+          </select>
+        </div>
+        <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+          {rows.map((r) => {
+            const pct = r.budgetedCents ? Math.min(100, Math.round((r.spentCents / r.budgetedCents) * 100)) : 100;
+            const over = r.remainingCents < 0;
+            return (
+              <li key={r.budget.categoryId} style={{ padding: "8px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+                  <span>{categoryLabel(categories, r.budget.categoryId)}</span>
+                  <strong style={{ color: over ? "#C0392B" : undefined }}>
+                    {over ? `${fmtMoney(-r.remainingCents, currency)} de más` : `${fmtMoney(r.remainingCents, currency)} disponibles`}
+                  </strong>
+                </div>
+                <div style={{ height: 8, borderRadius: 4, background: "#FAFEFF", marginTop: 6, overflow: "hidden" }}>
+                  <div style={{ width: `${pct}%`, height: "100%", background: over ? "#F28482" : PALETTE.accent }} />
+                </div>
+                <div style={{ display: "flex", justifyContent: "space-between", fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+                  <span>
+                    Gastado {fmtMoney(r.spentCents, currency)} de {fmtMoney(r.budgetedCents, currency)}
+                    {r.carryCents > 0 && ` (incluye ${fmtMoney(r.carryCents, currency)} acumulado)`}
+                  </span>
+                  <button
+                    style={{ width: "auto", height: 28, padding: "0 10px", fontSize: 12 }}
+                    onClick={() => setBudgets((prev) => prev.filter((b) => b.categoryId !== r.budget.categoryId))}
+                  >
+                    Quitar
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+          {rows.length === 0 && <div style={{ opacity: 0.6 }}>Sin presupuestos</div>}
+        </ul>
+        {rows.length > 0 && (
+          <div style={{ display: "flex", justifyContent: "space-between", paddingTop: 8, borderTop: `1px solid ${PALETTE.line}`, fontWeight: 600 }}>
+            <span>Total</span>
+            <span>
+              {fmtMoney(totals.spent, currency)} / {fmtMoney(totals.budgeted, currency)}
+            </span>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+// === Recurring screen ===
+function txTitle(t: TxTemplate, accounts: Account[], categories: Category[]) {
+  if (t.note) return t.note;
+  if (t.type === "TRANSFERENCIA") {
+    const name = (id: string | null) => accounts.find((a) => a.id === id)?.name || "—";
+    return `${name(t.accountFromId)} → ${name(t.accountToId)}`;
+  }
+  return categoryLabel(categories, t.categoryId) || t.type;
+}
+
+function RecurringTab({
+  rules,
+  setRules,
+  onTxs,
+  accounts,
+  categories,
+}: {
+  rules: RecurringRule[];
+  setRules: (fn: (prev: RecurringRule[]) => RecurringRule[]) => void;
+  onTxs: (label: string, changes: TxChangeSet) => void;
+  accounts: Account[];
+  categories: Category[];
+}) {
+  const today = todayStr();
+  const upcoming = useMemo(() => pendingOccurrences(rules, addDays(today, 31)), [rules, today]);
+  const [editing, setEditing] = useState<{ key: string; date: string; amount: string; note: string } | null>(null);
+  const keyOf = (o: Occurrence) => `${o.rule.id}:${o.scheduledDate}`;
+
+  // undoable, like any other new movement; the rule is marked as part of the same step
+  const post = (o: Occurrence) =>
+    onTxs("Registrar programado", [
+      {
+        before: null,
+        after: txFromOccurrence(o),
+        occurrence: { ruleId: o.rule.id, scheduledDate: o.scheduledDate, override: o.rule.overrides[o.scheduledDate] },
+      },
+    ]);
+  const skip = (o: Occurrence) => setRules((prev) => markHandled(prev, [o], "SKIPPED"));
+  const saveEdit = (o: Occurrence) => {
+    if (!editing) return;
+    const amountCents = toCents(editing.amount);
+    if (amountCents <= 0) {
+      alert("Monto inválido");
+      return;
+    }
+    const override = { date: editing.date || o.scheduledDate, amountCents, note: editing.note.trim() || null };
+    setRules((prev) => prev.map((r) => (r.id === o.rule.id ? { ...r, overrides: { ...r.overrides, [o.scheduledDate]: override } } : r)));
+    setEditing(null);
+  };
+  const removeRule = (r: RecurringRule) => {
+    if (!confirm("¿Borrar esta regla? Los movimientos ya registrados se conservan.")) return;
+    setRules((prev) => prev.filter((x) => x.id !== r.id));
+  };
+
+  return (
+    <section style={{ display: "grid", gap: 16 }}>
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Próximos (31 días)</div>
+        <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+          {upcoming.map((o) => (
+            <li key={keyOf(o)} style={{ padding: "8px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+              <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+                <span>
+                  <span style={{ whiteSpace: "nowrap", color: o.date < today ? "#C0392B" : undefined }}>{o.date}</span> · {txTitle({ ...o.rule.tx, note: o.note }, accounts, categories)}
+                </span>
+                <strong>{fmtMoney(o.amountCents, txCurrency(accounts, o.rule.tx))}</strong>
+              </div>
+              {editing?.key === keyOf(o) ? (
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, marginTop: 6 }}>
+                  <input type="date" value={editing.date} onChange={(e) => setEditing({ ...editing, date: e.target.value })} />
+                  <input type="number" inputMode="decimal" step="any" value={editing.amount} onChange={(e) => setEditing({ ...editing, amount: e.target.value })} />
+                  <input type="text" placeholder="Nota" value={editing.note} onChange={(e) => setEditing({ ...editing, note: e.target.value })} />
+                  <div style={{ display: "flex", gap: 6 }}>
+                    <button onClick={() => setEditing(null)}>Cancelar</button>
+                    <button className="btn-primary" onClick={() => saveEdit(o)}>
+                      Guardar
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                  <button className="btn-primary" onClick={() => post(o)}>
+                    Confirmar
+                  </button>
+                  <button onClick={() => skip(o)}>Omitir</button>
+                  <button onClick={() => setEditing({ key: keyOf(o), date: o.date, amount: centsToInput(o.amountCents), note: o.note || "" })}>Editar</button>
+                </div>
+              )}
+            </li>
+          ))}
+          {upcoming.length === 0 && <div style={{ opacity: 0.6 }}>Nada programado</div>}
+        </ul>
+      </div>
+
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Reglas</div>
+        <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 8 }}>Crea una regla desde el formulario del dashboard con la opción "Repetir" o con una fecha futura.</div>
+        <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+          {rules.map((r) => {
+            const posted = Object.values(r.handled).filter((h) => h === "POSTED").length;
+            return (
+              <li key={r.id} style={{ padding: "8px 0", borderTop: `1px solid ${PALETTE.line}`, opacity: r.paused ? 0.6 : 1 }}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+                  <span>{txTitle(r.tx, accounts, categories)}</span>
+                  <strong>{fmtMoney(r.tx.amountCents, txCurrency(accounts, r.tx))}</strong>
+                </div>
+                <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+                  {r.count === 1 ? `Programado para ${r.startDate}` : `Cada ${r.interval} ${FREQUENCY_LABELS[r.frequency]} desde ${r.startDate}`}
+                  {r.endDate && ` hasta ${r.endDate}`}
+                  {r.count != null && r.count > 1 && ` · ${r.count} veces`}
+                  {` · ${posted} registrado${posted === 1 ? "" : "s"}`}
+                  {r.autoPost ? " · automático" : " · con confirmación"}
+                </div>
+                <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                  <button onClick={() => setRules((prev) => prev.map((x) => (x.id === r.id ? { ...x, autoPost: !x.autoPost } : x)))}>
+                    {r.autoPost ? "Pedir confirmación" : "Automático"}
+                  </button>
+                  <button onClick={() => setRules((prev) => prev.map((x) => (x.id === r.id ? { ...x, paused: !x.paused } : x)))}>
+                    {r.paused ? "Reanudar" : "Pausar"}
+                  </button>
+                  <button onClick={() => removeRule(r)}>Borrar</button>
+                </div>
+              </li>
+            );
+          })}
+          {rules.length === 0 && <div style={{ opacity: 0.6 }}>Sin reglas</div>}
+        </ul>
+      </div>
+    </section>
+  );
+}
+
+// === Import screens ===
+function ImportReview({
+  rows,
+  existing,
+  accounts,
+  categories,
+  onConfirm,
+  onCancel,
+}: {
+  rows: ImportRow[];
+  existing: Tx[];
+  accounts: Account[];
+  categories: Category[];
+  onConfirm: (txs: Tx[]) => void;
+  onCancel: () => void;
+}) {
+  // Manual ticks on top of each row's default (valid and not a duplicate)
+  const [picked, setPicked] = useState<Record<string, boolean>>({});
+  useEffect(() => setPicked({}), [rows]);
+  const isIncluded = (r: ImportRow) => !!r.tx && (picked[r.key] ?? r.include);
+  const chosen = rows.filter(isIncluded);
+  const errors = rows.filter((r) => !r.tx).length;
+  const duplicates = rows.filter((r) => r.duplicate).length;
+  const accountName = (id: string | null) => accounts.find((a) => a.id === id)?.name || "—";
+
+  const confirmImport = () => {
+    const ids = new Set(existing.map((t) => t.id));
+    const txs = chosen.map((r) => {
+      const t = r.tx!;
+      // imported anyway despite a clashing id: keep both
+      const id = ids.has(t.id) ? newId() : t.id;
+      ids.add(id);
+      return { ...t, id };
+    });
+    onConfirm(txs);
+  };
+
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap", fontSize: 13, margin: "12px 0" }}>
+        <span>{rows.length} filas</span>
+        <span>· {chosen.length} por importar</span>
+        {duplicates > 0 && <span style={{ color: "#B9770E" }}>· {duplicates} posibles duplicados</span>}
+        {errors > 0 && <span style={{ color: "#C0392B" }}>· {errors} con errores</span>}
+      </div>
+      <div style={{ overflowX: "auto", maxHeight: 420, overflowY: "auto" }}>
+        <table style={{ width: "100%", fontSize: 13 }}>
+          <thead>
+            <tr style={{ opacity: 0.8 }}>
+              <th></th>
+              <th style={{ textAlign: "left", padding: "6px 0" }}>Fecha</th>
+              <th style={{ textAlign: "left" }}>Tipo</th>
+              <th style={{ textAlign: "left" }}>Monto</th>
+              <th style={{ textAlign: "left" }}>Cuenta</th>
+              <th style={{ textAlign: "left" }}>Categoría</th>
+              <th style={{ textAlign: "left" }}>Nota</th>
+              <th style={{ textAlign: "left" }}>Estado</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r, i) => (
+              <tr key={r.key} style={{ borderTop: `1px solid ${PALETTE.line}`, opacity: isIncluded(r) ? 1 : 0.6 }}>
+                <td>
+                  <input
+                    type="checkbox"
+                    style={{ width: 18, height: 18 }}
+                    disabled={!r.tx}
+                    checked={isIncluded(r)}
+                    onChange={(e) => setPicked((p) => ({ ...p, [r.key]: e.target.checked }))}
+                  />
+                </td>
+                {r.tx ? (
+                  <>
+                    <td style={{ padding: "6px 0", whiteSpace: "nowrap" }}>{r.tx.date}</td>
+                    <td>{r.tx.type}</td>
+                    <td style={{ whiteSpace: "nowrap" }}>{fmtMoney(r.tx.amountCents, txCurrency(accounts, r.tx))}</td>
+                    <td>
+                      {r.tx.type === "TRANSFERENCIA"
+                        ? `${accountName(r.tx.accountFromId)} → ${accountName(r.tx.accountToId)}`
+                        : accountName(movementAccountId(r.tx))}
+                    </td>
+                    <td>{categoryLabel(categories, r.tx.categoryId) || "—"}</td>
+                    <td style={{ maxWidth: 200, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>{r.tx.note || ""}</td>
+                  </>
+                ) : (
+                  <td colSpan={6} style={{ padding: "6px 0" }}>
+                    Fila {i + 1}
+                  </td>
+                )}
+                <td style={{ color: r.errors.length ? "#C0392B" : r.duplicate ? "#B9770E" : undefined }}>
+                  {r.errors.length ? r.errors.join("; ") : r.duplicate ? `Duplicado (${r.duplicate})` : "OK"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+        <button onClick={onCancel}>Cancelar</button>
+        <button className="btn-primary" disabled={!chosen.length} onClick={confirmImport}>
+          Importar {chosen.length} movimientos
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function CsvImportWizard({
+  fileName,
+  text,
+  accounts,
+  categories,
+  txs,
+  onCommit,
+  onCancel,
+}: {
+  fileName: string;
+  text: string;
+  accounts: Account[];
+  categories: Category[];
+  txs: Tx[];
+  onCommit: (txs: Tx[]) => void;
+  onCancel: () => void;
+}) {
+  const [sep, setSep] = useState(() => detectSeparator(text));
+  const table = useMemo(() => parseDelimited(text, sep), [text, sep]);
+  const [mapping, setMapping] = useState<CsvMapping>(() => guessCsvMapping(table, accounts));
+  useEffect(() => setMapping(guessCsvMapping(table, accounts)), [table]); // eslint-disable-line
+  const rows = useMemo(() => buildImportRows(csvToCandidates(table, mapping, accounts, categories), txs), [table, mapping, accounts, categories, txs]);
+  const headers = mapping.hasHeader ? table[0] || [] : (table[0] || []).map((_, i) => `Columna ${i + 1}`);
+  const setColumn = (field: CsvTarget, v: string) =>
+    setMapping((m) => {
+      const columns = { ...m.columns };
+      if (v === "") delete columns[field];
+      else columns[field] = Number(v);
+      return { ...m, columns };
+    });
+
+  return (
+    <div className="card">
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>Importar {fileName}</div>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+        <div>
+          <div style={{ fontSize: 13, opacity: 0.7 }}>Separador</div>
+          <select value={sep} onChange={(e) => setSep(e.target.value)}>
+            <option value=",">Coma ( , )</option>
+            <option value=";">Punto y coma ( ; )</option>
+            <option value={"\t"}>Tabulador</option>
+            <option value="|">Barra ( | )</option>
+          </select>
+        </div>
+        <label style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 18 }}>
+          <input
+            type="checkbox"
+            style={{ width: 20, height: 20 }}
+            checked={mapping.hasHeader}
+            onChange={(e) => setMapping((m) => ({ ...m, hasHeader: e.target.checked }))}
+          />
+          <span style={{ fontSize: 14 }}>Primera fila con encabezados</span>
+        </label>
+        <div>
+          <div style={{ fontSize: 13, opacity: 0.7 }}>Formato de fecha</div>
+          <select value={mapping.dateFormat} onChange={(e) => setMapping((m) => ({ ...m, dateFormat: e.target.value as DateFormat }))}>
+            <option value="DMY">DD/MM/AAAA</option>
+            <option value="MDY">MM/DD/AAAA</option>
+            <option value="YMD">AAAA-MM-DD</option>
+          </select>
+        </div>
+        <div>
+          <div style={{ fontSize: 13, opacity: 0.7 }}>Números</div>
+          <select value={mapping.decimal} onChange={(e) => setMapping((m) => ({ ...m, decimal: e.target.value as "," | "." }))}>
+            <option value=",">1.234,56</option>
+            <option value=".">1,234.56</option>
+          </select>
+        </div>
+        <div>
+          <div style={{ fontSize: 13, opacity: 0.7 }}>Cuenta si el archivo no la trae</div>
+          <select value={mapping.defaultAccountId} onChange={(e) => setMapping((m) => ({ ...m, defaultAccountId: e.target.value }))}>
+            <option value="">— Ninguna —</option>
+            {accounts
+              .filter((a) => !a.archived)
+              .map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name}
+                </option>
+              ))}
+          </select>
+        </div>
+      </div>
+
+      <div style={{ fontWeight: 600, margin: "16px 0 8px" }}>Columnas</div>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+        {CSV_TARGETS.map((t) => (
+          <div key={t.field}>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>{t.label}</div>
+            <select value={mapping.columns[t.field] ?? ""} onChange={(e) => setColumn(t.field, e.target.value)}>
+              <option value="">— No usar —</option>
+              {headers.map((h, i) => (
+                <option key={i} value={i}>
+                  {h || `Columna ${i + 1}`}
+                  {table[mapping.hasHeader ? 1 : 0]?.[i] ? ` (ej. ${table[mapping.hasHeader ? 1 : 0][i].slice(0, 20)})` : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <ImportReview rows={rows} existing={txs} accounts={accounts} categories={categories} onConfirm={onCommit} onCancel={onCancel} />
+    </div>
+  );
+}
+
+function StatementImportWizard({
+  fileName,
+  text,
+  format,
+  accounts,
+  categories,
+  txs,
+  onCommit,
+  onCancel,
+}: {
+  fileName: string;
+  text: string;
+  format: StatementFormat;
+  accounts: Account[];
+  categories: Category[];
+  txs: Tx[];
+  onCommit: (txs: Tx[]) => void;
+  onCancel: () => void;
+}) {
+  const active = accounts.filter((a) => !a.archived);
+  const [accountId, setAccountId] = useState("");
+  const [sourceAccountId, setSourceAccountId] = useState(() => active.find((a) => a.type === ACCOUNT_TYPES.CASH)?.id || "");
+  const [dateFormat, setDateFormat] = useState<DateFormat>(() => detectDateFormat(qifRecords(text).map((r) => qifDate(r.D))));
+  const [decimal, setDecimal] = useState<"," | ".">(() => detectDecimal(qifRecords(text).map((r) => r.T ?? r.U ?? "")));
+  const account = accounts.find((a) => a.id === accountId) || null;
+  const lines = useMemo(() => (format === "ofx" ? parseOFX(text) : parseQIF(text, dateFormat, decimal)), [format, text, dateFormat, decimal]);
+  const rows = useMemo(
+    () => buildImportRows(statementToCandidates(lines, format, account, sourceAccountId, categories), txs),
+    [lines, format, account, sourceAccountId, categories, txs]
+  );
+
+  return (
+    <div className="card">
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>
+        Importar {fileName} ({format.toUpperCase()})
+      </div>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+        <div>
+          <div style={{ fontSize: 13, opacity: 0.7 }}>Cuenta del extracto</div>
+          <select value={accountId} onChange={(e) => setAccountId(e.target.value)}>
+            <option value="">Elegir…</option>
+            {active.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {account?.type === ACCOUNT_TYPES.CREDIT && (
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Pagos hechos desde</div>
+            <select value={sourceAccountId} onChange={(e) => setSourceAccountId(e.target.value)}>
+              <option value="">Elegir…</option>
+              {active
+                .filter((a) => a.type === ACCOUNT_TYPES.CASH)
+                .map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+        )}
+        {format === "qif" && (
+          <>
+            <div>
+              <div style={{ fontSize: 13, opacity: 0.7 }}>Formato de fecha</div>
+              <select value={dateFormat} onChange={(e) => setDateFormat(e.target.value as DateFormat)}>
+                <option value="DMY">DD/MM/AAAA</option>
+                <option value="MDY">MM/DD/AAAA</option>
+                <option value="YMD">AAAA-MM-DD</option>
+              </select>
+            </div>
+            <div>
+              <div style={{ fontSize: 13, opacity: 0.7 }}>Números</div>
+              <select value={decimal} onChange={(e) => setDecimal(e.target.value as "," | ".")}>
+                <option value=",">1.234,56</option>
+                <option value=".">1,234.56</option>
+              </select>
+            </div>
+          </>
+        )}
+      </div>
+
+      <ImportReview rows={rows} existing={txs} accounts={accounts} categories={categories} onConfirm={onCommit} onCancel={onCancel} />
+    </div>
+  );
+}
+
+// === Security screen ===
+const LOCK_MINUTES = [1, 5, 15, 30];
+
+function LockScreen({ onUnlock }: { onUnlock: (pin: string) => Promise<boolean> }) {
+  const [pin, setPin] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const submit = async () => {
+    if (!pin || busy) return;
+    setBusy(true);
+    setError("");
+    if (await onUnlock(pin)) return;
+    setError("PIN incorrecto");
+    setPin("");
+    setBusy(false);
+  };
+
+  return (
+    <div style={{ backgroundColor: PALETTE.bg, minHeight: "100vh", color: PALETTE.text, display: "grid", placeItems: "center", padding: 24 }}>
+      <div className="card" style={{ width: "100%", maxWidth: 360 }}>
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>🔒 Hasaba está bloqueada</div>
+        <input
+          type="password"
+          autoFocus
+          placeholder="PIN o frase"
+          value={pin}
+          onChange={(e) => setPin(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && submit()}
+        />
+        {error && <div style={{ fontSize: 13, color: "#C0392B", marginTop: 6 }}>{error}</div>}
+        <button className="btn-primary" style={{ marginTop: 12 }} disabled={busy || !pin} onClick={submit}>
+          {busy ? "Abriendo…" : "Desbloquear"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function SecurityTab({
+  security,
+  onEnable,
+  onChangePin,
+  onDisable,
+  onLockMinutes,
+  onLockNow,
+  syncing,
+}: {
+  security: Security | null;
+  onEnable: (pin: string, lockMinutes: number) => Promise<void>;
+  onChangePin: (currentPin: string, pin: string) => Promise<boolean>;
+  onDisable: (currentPin: string) => Promise<boolean>;
+  onLockMinutes: (minutes: number) => void;
+  onLockNow: () => void;
+  syncing: boolean;
+}) {
+  const [draft, setDraft] = useState({ current: "", pin: "", confirm: "", lockMinutes: "5", understood: false });
+  const [busy, setBusy] = useState(false);
+  const onDraft = (k: keyof typeof draft, v: any) => setDraft((d) => ({ ...d, [k]: v }));
+  const reset = () => setDraft((d) => ({ ...d, current: "", pin: "", confirm: "", understood: false }));
+
+  const validPin = () => {
+    if (draft.pin.length < 4) {
+      alert("El PIN debe tener al menos 4 caracteres");
+      return false;
+    }
+    if (draft.pin !== draft.confirm) {
+      alert("Los PIN no coinciden");
+      return false;
+    }
+    return true;
+  };
+  // Re-encrypting rewrites every record, so the buttons stay disabled until it finishes
+  const run = async (job: () => Promise<boolean | void>, done: string) => {
+    setBusy(true);
+    try {
+      if ((await job()) === false) alert("PIN actual incorrecto");
+      else {
+        reset();
+        alert(done);
+      }
+    } catch (err) {
+      alert(`No se pudo completar: ${storageErrorMessage(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const warning = (
+    <div style={{ fontSize: 13, color: "#C0392B", marginTop: 12 }}>
+      Si olvidas el PIN, los datos no se pueden recuperar: la clave sale del PIN y no se guarda en ningún lado. Descarga un respaldo (que no va cifrado) y
+      guárdalo en un lugar seguro.
+    </div>
+  );
+  const pinFields = (label: string) => (
+    <>
+      <div>
+        <div style={{ fontSize: 13, opacity: 0.7 }}>{label}</div>
+        <input type="password" value={draft.pin} onChange={(e) => onDraft("pin", e.target.value)} />
+      </div>
+      <div>
+        <div style={{ fontSize: 13, opacity: 0.7 }}>Repetir</div>
+        <input type="password" value={draft.confirm} onChange={(e) => onDraft("confirm", e.target.value)} />
+      </div>
+    </>
+  );
+
+  // The PIN only protects what is stored here: sync sends every record to the server as it is
+  const syncNote = syncing && (
+    <div style={{ fontSize: 13, color: "#C0392B", marginTop: 12 }}>
+      La sincronización está activa: los datos se envían al servidor sin cifrar, aunque el PIN los cifre en este dispositivo.
+    </div>
+  );
+
+  if (!security)
+    return (
+      <section style={{ display: "grid", gap: 16 }}>
+        <div className="card">
+          <div style={{ fontWeight: 600, marginBottom: 8 }}>Bloqueo con PIN</div>
+          <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 12 }}>
+            Con un PIN o frase la app se bloquea tras un tiempo sin uso y los datos guardados en el dispositivo quedan cifrados.
+          </div>
+          {syncNote}
+          <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
+            {pinFields("PIN o frase")}
+            <div>
+              <div style={{ fontSize: 13, opacity: 0.7 }}>Bloquear tras</div>
+              <select value={draft.lockMinutes} onChange={(e) => onDraft("lockMinutes", e.target.value)}>
+                {LOCK_MINUTES.map((m) => (
+                  <option key={m} value={String(m)}>
+                    {m} min sin uso
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {warning}
+          <label style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8 }}>
+            <input type="checkbox" style={{ width: 20, height: 20 }} checked={draft.understood} onChange={(e) => onDraft("understood", e.target.checked)} />
+            <span style={{ fontSize: 14 }}>Entiendo que un PIN olvidado significa perder los datos</span>
+          </label>
+          <button
+            className="btn-primary"
+            style={{ marginTop: 12 }}
+            disabled={busy || !draft.understood}
+            onClick={() => validPin() && run(() => onEnable(draft.pin, Number(draft.lockMinutes)), "PIN activado: los datos quedaron cifrados")}
+          >
+            {busy ? "Cifrando…" : "Activar PIN"}
+          </button>
+        </div>
+      </section>
+    );
+
+  return (
+    <section style={{ display: "grid", gap: 16 }}>
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Bloqueo con PIN activado</div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16, alignItems: "end" }}>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Bloquear tras</div>
+            <select value={String(security.lockMinutes)} onChange={(e) => onLockMinutes(Number(e.target.value))}>
+              {LOCK_MINUTES.map((m) => (
+                <option key={m} value={String(m)}>
+                  {m} min sin uso
+                </option>
+              ))}
+            </select>
+          </div>
+          <button onClick={onLockNow}>🔒 Bloquear ahora</button>
+        </div>
+        {syncNote}
+      </div>
+
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Cambiar o quitar el PIN</div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
+          <div style={{ gridColumn: "1 / -1" }}>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>PIN actual</div>
+            <input type="password" value={draft.current} onChange={(e) => onDraft("current", e.target.value)} />
+          </div>
+          {pinFields("PIN nuevo")}
+        </div>
+        {warning}
+        <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+          <button
+            className="btn-primary"
+            disabled={busy || !draft.current}
+            onClick={() => validPin() && run(() => onChangePin(draft.current, draft.pin), "PIN cambiado: los datos se cifraron con el nuevo")}
+          >
+            {busy ? "Cifrando…" : "Cambiar PIN"}
+          </button>
+          <button
+            disabled={busy || !draft.current}
+            onClick={() =>
+              confirm("Los datos quedarán sin cifrar y la app no se bloqueará. ¿Quitar el PIN?") &&
+              run(() => onDisable(draft.current), "PIN quitado: los datos ya no están cifrados")
+            }
+          >
+            Quitar PIN
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+// === Sync screen ===
+function SyncTab({
+  config,
+  status,
+  onSave,
+  onSyncNow,
+  onDisable,
+}: {
+  config: SyncConfig | null;
+  status: { busy: boolean; error: string | null };
+  onSave: (url: string, token: string) => Promise<void>;
+  onSyncNow: () => void;
+  onDisable: () => Promise<void>;
+}) {
+  const [draft, setDraft] = useState({ url: config?.url || "", token: config?.token || "" });
+  useEffect(() => setDraft({ url: config?.url || "", token: config?.token || "" }), [config?.url, config?.token]);
+
+  const save = async () => {
+    const url = draft.url.trim();
+    if (!/^https?:\/\/\S+$/i.test(url)) {
+      alert("Indica la dirección del servidor, por ejemplo http://192.168.1.20:8787/sync");
+      return;
+    }
+    try {
+      await onSave(url, draft.token.trim());
+    } catch (err) {
+      alert(`No se pudo guardar: ${storageErrorMessage(err)}`);
+    }
+  };
+  const disable = async () => {
+    if (!confirm("Este dispositivo dejará de sincronizarse. Los datos se quedan como están. ¿Desactivar?")) return;
+    await onDisable().catch((err) => alert(`No se pudo guardar: ${storageErrorMessage(err)}`));
+  };
+
+  return (
+    <section style={{ display: "grid", gap: 16 }}>
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Sincronizar con un servidor propio</div>
+        <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 12 }}>
+          Cada dispositivo guarda todo localmente y funciona sin conexión; al sincronizar se envían los cambios (también los borrados) y se reciben los de los
+          demás. Si el mismo registro cambió en dos lados, queda el cambio más reciente. Los archivos adjuntos no se sincronizan: se quedan en el dispositivo
+          donde se agregaron. Los datos viajan y quedan en el servidor sin cifrar, aunque uses PIN.
+        </div>
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Dirección</div>
+            <input
+              type="url"
+              placeholder="http://192.168.1.20:8787/sync"
+              value={draft.url}
+              onChange={(e) => setDraft((d) => ({ ...d, url: e.target.value }))}
+            />
+          </div>
+          <div>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>Token (opcional)</div>
+            <input type="password" value={draft.token} onChange={(e) => setDraft((d) => ({ ...d, token: e.target.value }))} />
+          </div>
+        </div>
+        <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+          <button className="btn-primary" onClick={save}>
+            {config ? "Guardar cambios" : "Activar sincronización"}
+          </button>
+          {config && (
+            <button disabled={status.busy} onClick={onSyncNow}>
+              {status.busy ? "Sincronizando…" : "Sincronizar ahora"}
+            </button>
+          )}
+          {config && <button onClick={disable}>Desactivar</button>}
+        </div>
+        {config && (
+          <div style={{ fontSize: 13, marginTop: 12 }}>
+            {config.lastSyncAt ? `Última sincronización: ${new Date(config.lastSyncAt).toLocaleString("es-CO")}` : "Todavía no se ha sincronizado"}
+            {status.error && <div style={{ color: "#C0392B" }}>No se pudo sincronizar: {status.error}. Los cambios se envían en el próximo intento.</div>}
+          </div>
+        )}
+        <div style={{ fontSize: 12, opacity: 0.7, marginTop: 12 }}>
+          Los datos viajan sin cifrar (aunque haya PIN): usa HTTPS o tu red local. Los ajustes y los archivos adjuntos no se sincronizan.
+        </div>
+      </div>
+    </section>
+  );
+}
+
+// === Backup screen ===
+function BackupTab({
+  data,
+  loadFiles,
+  onRestore,
+}: {
+  data: BackupData;
+  loadFiles: () => Promise<BackupFile[]>;
+  onRestore: (data: Partial<BackupData>, mode: RestoreMode, files: BackupFile[]) => Promise<void>;
+}) {
+  const [pending, setPending] = useState<{ fileName: string; parsed: ParsedBackup } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("MERGE");
+  const count = (v: unknown) => (Array.isArray(v) ? v.length : Object.keys(v || {}).length);
+  const entities = Object.entries(BACKUP_ENTITIES) as [keyof BackupData, { key?: string; label: string }][];
+
+  const download = async () => {
+    let files: BackupFile[];
+    try {
+      files = await loadFiles();
+    } catch (err) {
+      alert(`No se pudieron leer los adjuntos: ${storageErrorMessage(err)}`);
+      return;
+    }
+    const blob = new Blob([JSON.stringify(buildBackup(data, files), null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `hasaba-respaldo-${todayStr()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+  const load = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e: any) => setPending({ fileName: file.name, parsed: parseBackup(e.target.result as string) });
+    reader.readAsText(file);
+  };
+  const restore = async () => {
+    if (!pending || pending.parsed.errors.length) return;
+    const replaced = entities.filter(([entity]) => pending.parsed.data[entity]).map(([, e]) => e.label.toLowerCase());
+    if (mode === "REPLACE" && !confirm(`Se reemplazarán ${replaced.join(", ")} por el contenido del respaldo. ¿Continuar?`)) return;
+    try {
+      await onRestore(pending.parsed.data, mode, pending.parsed.files || []);
+    } catch (err) {
+      alert(`No se pudieron guardar los adjuntos: ${storageErrorMessage(err)}`);
+      return;
+    }
+    setPending(null);
+    alert("Respaldo restaurado");
+  };
+
+  return (
+    <section style={{ display: "grid", gap: 16 }}>
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Respaldo</div>
+        <div style={{ fontSize: 13, opacity: 0.7, marginBottom: 12 }}>
+          Descarga un archivo JSON con todos tus datos para guardarlo fuera del teléfono o pasarlo a otro dispositivo.
+        </div>
+        <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+          {entities.map(([entity, { label }]) => (
+            <li key={entity} style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderBottom: `1px solid ${PALETTE.line}` }}>
+              <span>{label}</span>
+              <span>{count(data[entity])}</span>
+            </li>
+          ))}
+          <li style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderBottom: `1px solid ${PALETTE.line}` }}>
+            <span>Adjuntos</span>
+            <span>{attachmentIds(data.transactions).length}</span>
+          </li>
+        </ul>
+        <button className="btn-primary" style={{ marginTop: 12 }} onClick={download}>
+          Descargar respaldo
+        </button>
+      </div>
+
+      <div className="card">
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Restaurar</div>
+        <label style={{ cursor: "pointer" }}>
+          Elegir archivo de respaldo…
+          <input
+            type="file"
+            accept=".json,application/json"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              if (e.target.files && e.target.files[0]) load(e.target.files[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+
+        {pending && (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ fontSize: 13, opacity: 0.7 }}>
+              {pending.fileName} · versión {pending.parsed.version}
+              {pending.parsed.exportedAt ? ` · ${new Date(pending.parsed.exportedAt).toLocaleString("es-CO")}` : ""}
+            </div>
+            {pending.parsed.errors.length > 0 ? (
+              <ul style={{ margin: "8px 0 0", paddingLeft: 18, color: "#C0392B" }}>
+                {pending.parsed.errors.map((err) => (
+                  <li key={err}>{err}</li>
+                ))}
+              </ul>
+            ) : (
+              <>
+                <ul style={{ margin: "8px 0 0", padding: 0, listStyle: "none" }}>
+                  {entities.map(([entity, { label }]) => (
+                    <li key={entity} style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderBottom: `1px solid ${PALETTE.line}` }}>
+                      <span>{label}</span>
+                      <span>{pending.parsed.data[entity] ? count(pending.parsed.data[entity]) : "no incluido"}</span>
+                    </li>
+                  ))}
+                  <li style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderBottom: `1px solid ${PALETTE.line}` }}>
+                    <span>Adjuntos</span>
+                    <span>{pending.parsed.files?.length || "no incluido"}</span>
+                  </li>
+                </ul>
+                <div className="seg" style={{ marginTop: 12 }}>
+                  <button className={mode === "MERGE" ? "active" : ""} onClick={() => setMode("MERGE")}>
+                    Combinar
+                  </button>
+                  <button className={mode === "REPLACE" ? "active" : ""} onClick={() => setMode("REPLACE")}>
+                    Reemplazar
+                  </button>
+                </div>
+                <div style={{ fontSize: 13, opacity: 0.7, marginTop: 8 }}>
+                  {mode === "MERGE"
+                    ? "Agrega lo que no tienes; si un registro existe en ambos lados se queda la versión editada más recientemente."
+                    : "Los datos incluidos en el respaldo reemplazan a los actuales."}
+                </div>
+                <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+                  <button className="btn-primary" onClick={restore}>
+                    Restaurar
+                  </button>
+                  <button onClick={() => setPending(null)}>Cancelar</button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+// === App ===
+// Opens the database (running its migrations) before the app renders
+type Boot = { error: string } | { db: IDBDatabase; security: Security; locked: true } | { store: StorageHandle; security: Security | null; data: BackupData };
+
+export default function App() {
+  const [boot, setBoot] = useState<Boot | null>(null);
+  const fail = (err: unknown) => setBoot({ error: storageErrorMessage(err) });
+  const start = async (db: IDBDatabase) => {
+    const security = await readSecurity(db);
+    if (security) setBoot({ db, security, locked: true });
+    else setBoot({ store: await openHandle(db, null), security: null, data: await loadDatabase(db, null) });
+  };
+  useEffect(() => {
+    openDatabase().then(start).catch(fail);
+  }, []);
+
+  if (!boot || "error" in boot)
+    return (
+      <div style={{ backgroundColor: PALETTE.bg, minHeight: "100vh", color: PALETTE.text, display: "grid", placeItems: "center", padding: 24 }}>
+        {boot && "error" in boot ? `No se pudieron abrir los datos guardados: ${boot.error}` : "Cargando…"}
+      </div>
+    );
+  if ("locked" in boot)
+    return (
+      <LockScreen
+        onUnlock={async (pin) => {
+          const key = await unlockKey(boot.security, pin);
+          if (!key) return false;
+          Promise.all([openHandle(boot.db, key), loadDatabase(boot.db, key)])
+            .then(([store, data]) => setBoot({ store, security: boot.security, data }))
+            .catch(fail);
+          return true;
+        }}
+      />
+    );
+  // Locking forgets the key and everything in memory, once pending writes are done
+  const { store } = boot;
+  const lock = () => store.queue.then(() => start(store.db)).catch(fail);
+  return <Ledger store={store} security={boot.security} initial={boot.data} onLock={lock} />;
+}
+
+function Ledger({
+  store,
+  security: initialSecurity,
+  initial,
+  onLock,
+}: {
+  store: StorageHandle;
+  security: Security | null;
+  initial: BackupData;
+  onLock: () => void;
+}) {
+  // State (persisted in IndexedDB)
+  const [storageErrors, setStorageErrors] = useState<Partial<Record<StoreName, string>>>({});
+  const [retryToken, setRetryToken] = useState(0);
+  const onStored = (name: StoreName, error: string | null) =>
+    setStorageErrors((prev) => {
+      if ((prev[name] || null) === error) return prev;
+      const next = { ...prev };
+      if (error) next[name] = error;
+      else delete next[name];
+      return next;
+    });
+  const [accounts, setAccounts] = useStoredState(store, "accounts", initial.accounts, retryToken, onStored);
+  const [categories, setCategories] = useStoredState(store, "categories", initial.categories, retryToken, onStored);
+  const [payees, setPayees] = useStoredState(store, "payees", initial.payees, retryToken, onStored);
+  const [goals, setGoals] = useStoredState(store, "goals", initial.goals, retryToken, onStored);
+  const [valuations, setValuations] = useStoredState(store, "valuations", initial.valuations, retryToken, onStored);
+  const [loans, setLoans] = useStoredState(store, "loans", initial.loans, retryToken, onStored);
+  const [txs, setTxs] = useStoredState(store, "transactions", initial.transactions, retryToken, onStored);
+  const [budgets, setBudgets] = useStoredState(store, "budgets", initial.budgets, retryToken, onStored);
+  const [rules, setRules] = useStoredState(store, "recurring", initial.recurring, retryToken, onStored);
+  const [rates, setRates] = useStoredState(store, "rates", initial.rates, retryToken, onStored);
+  const [settings, setSettings] = useStoredState(store, "settings", initial.settings, retryToken, onStored);
+  const [txHistory, setTxHistory] = useStoredState(store, "txHistory", initial.txHistory, retryToken, onStored);
+  const txUndo = useTxUndo(setTxs, txHistory, setTxHistory, setRules);
+  const [tab, setTab] = useState<
+    | "dashboard"
+    | "reportes"
+    | "patrimonio"
+    | "presupuesto"
+    | "recurrentes"
+    | "cuentas"
+    | "monedas"
+    | "categorias"
+    | "beneficiarios"
+    | "metas"
+    | "inversiones"
+    | "prestamos"
+    | "sincronizar"
+    | "respaldo"
+    | "seguridad"
+  >("dashboard");
+
+  // Drop files left behind by deleted movements in earlier sessions (the history can still bring them back, so those stay)
+  useEffect(() => {
+    const history = Object.values(initial.txHistory || {}).flatMap((h) =>
+      h.flatMap((c) => [...(c.changes.attachments?.from || []), ...(c.changes.attachments?.to || [])].map((a: AttachmentRef) => a.id))
+    );
+    sweepAttachments(store, new Set([...attachmentIds(initial.transactions), ...history])).catch(() => undefined);
+  }, []); // eslint-disable-line
+
+  // Post recurring occurrences that came due while the app was closed
+  useEffect(() => {
+    const due = pendingOccurrences((rules || []).filter((r) => r.autoPost), todayStr());
+    if (!due.length) return;
+    setTxs((prev) => [...due.map(txFromOccurrence).reverse(), ...(prev || [])]);
+    setRules((prev) => markHandled(prev || [], due, "POSTED"));
+  }, []); // eslint-disable-line
+
+  // Form
+  const [form, setForm] = useState<any>({
+    type: "TRANSFERENCIA",
+    date: todayStr(),
+    amount: "0",
+    accountFromId: "visa",
+    accountToId: "ahorros",
+    paymentMethod: "VISA",
+    categoryId: null,
+    note: "",
+    repeat: "NONE",
+    interval: "1",
+    endMode: "NEVER",
+    endDate: "",
+    count: "12",
+    autoPost: true,
+    installments: "1",
+    amountTo: "",
+    originalCurrency: "",
+    originalAmount: "",
+    splits: [] as { categoryId: string | null; amount: string; note: string }[],
+    payee: "",
+    tags: "",
+    attachments: [] as AttachmentRef[],
+    goalId: "",
+    editingId: null,
+  });
+  const onChange = (k: string, v: any) => setForm((f: any) => ({ ...f, [k]: v }));
+
+  const allTags = useMemo(() => {
+    const seen = new Map<string, string>();
+    for (const t of txs || []) for (const tag of t?.tags || []) if (!seen.has(normalizeText(tag))) seen.set(normalizeText(tag), tag);
+    return [...seen.values()].sort((a, b) => a.localeCompare(b));
+  }, [txs]);
+
+  // Picking a known payee suggests its default category
+  const onPayee = (name: string) =>
+    setForm((f: any) => {
+      const p = findPayee(payees, name);
+      const cat = categories.find((c) => c.id === p?.defaultCategoryId);
+      return { ...f, payee: name, ...(cat && cat.kind === f.type && !f.splits.length ? { categoryId: cat.id } : {}) };
+    });
+
+  // Split lines (GASTO only): the first starts with the whole amount; removing down to one line undoes the split
+  const splitting = form.type === "GASTO" && form.splits.length > 0;
+  const splitLeft = splitting ? toCents(form.amount) - form.splits.reduce((acc: number, l: any) => acc + toCents(l.amount), 0) : 0;
+  const startSplit = () =>
+    onChange("splits", [
+      { categoryId: form.categoryId, amount: form.amount === "0" ? "" : form.amount, note: "" },
+      { categoryId: form.categoryId, amount: "", note: "" },
+    ]);
+  const onSplit = (i: number, k: string, v: string) =>
+    setForm((f: any) => ({ ...f, splits: f.splits.map((l: any, j: number) => (j === i ? { ...l, [k]: v } : l)) }));
+  const removeSplit = (i: number) =>
+    setForm((f: any) => {
+      const rest = f.splits.filter((_: any, j: number) => j !== i);
+      return rest.length > 1 ? { ...f, splits: rest } : { ...f, categoryId: rest[0]?.categoryId || f.categoryId, splits: [] };
+    });
+
+  const pmAccount = (paymentMethod: string) => {
+    const accountId = PAYMENT_METHODS.find((m) => m.id === paymentMethod)?.accountId;
+    return accounts.find((a) => a.id === accountId && !a.archived);
+  };
+  // The payment method picks the origin account while that account is active; otherwise the origin is free to choose
+  // and a new movement falls back to the first active account if the one in the form is gone
+  useEffect(() => {
+    if (form.type !== "GASTO") return;
+    const target = pmAccount(form.paymentMethod);
+    const gone = !form.editingId && !accounts.some((a) => a.id === form.accountFromId && !a.archived);
+    const fallback = gone ? accounts.find((a) => !a.archived) : undefined;
+    const next = target || fallback;
+    if (next && form.accountFromId !== next.id) setForm((f: any) => ({ ...f, accountFromId: next.id }));
+  }, [form.paymentMethod, form.type, accounts]);
+
+  useEffect(() => {
+    if (form.type === "TRANSFERENCIA") {
+      if (form.categoryId) setForm((f: any) => ({ ...f, categoryId: null }));
+      return;
+    }
+    const allowed = categoryTree(categories, form.type);
+    if (!allowed.some((x) => x.category.id === form.categoryId)) {
+      const first = allowed[0]?.category.id || null;
+      setForm((f: any) => ({ ...f, categoryId: first }));
+    }
+  }, [form.type, categories]);
+
+  const isIngreso = form.type === "INGRESO";
+  const isGasto = form.type === "GASTO";
+  const isTransf = form.type === "TRANSFERENCIA";
+
+  const summary = useMemo(() => computeBalances(accounts, txs), [accounts, txs]);
+
+  // Currency of the amount typed in the form, and of what the destination receives
+  const baseCurrency = settings.baseCurrency;
+  const formCurrency = accountCurrency(accounts.find((a) => a.id === (isIngreso ? form.accountToId : form.accountFromId)));
+  const toCurrency = accountCurrency(accounts.find((a) => a.id === form.accountToId));
+  const crossCurrency = isTransf && formCurrency !== toCurrency;
+  const suggestedAmountTo = crossCurrency ? convertCents(toCents(form.amount), formCurrency, toCurrency, rates, form.date) : null;
+  const formAmountTo = toCents(form.amountTo) || suggestedAmountTo || 0;
+
+  // Reports and budgets add up movements in the base currency
+  const inBase = useMemo(() => txsInCurrency(txs || [], accounts, rates, baseCurrency), [txs, accounts, rates, baseCurrency]);
+
+  const activeAccounts = accounts.filter((a) => !a.archived);
+  const fromCredit = isGasto && accounts.find((a) => a.id === form.accountFromId)?.type === ACCOUNT_TYPES.CREDIT;
+  const pmLocksAccount = isGasto && !!pmAccount(form.paymentMethod);
+  // Goals a transfer can count for: those kept in the destination (a contribution) or the origin (a withdrawal)
+  const formGoals = isTransf ? goals.filter((g) => g.accountId === form.accountToId || g.accountId === form.accountFromId) : [];
+  const formGoal = formGoals.find((g) => g.id === form.goalId);
+
+  // Liquidez total (cuentas CASH activas marcadas como líquidas), en la moneda base
+  const liquidez = useMemo(() => {
+    let totalCents = 0;
+    const missing = new Set<string>();
+    for (const s of summary.accounts) {
+      if (s.account.type !== ACCOUNT_TYPES.CASH || s.account.liquid === false || s.account.archived) continue;
+      const cents = convertCents(s.balanceCents, accountCurrency(s.account), baseCurrency, rates);
+      if (cents == null) missing.add(accountCurrency(s.account));
+      else totalCents += cents;
+    }
+    return { totalCents, missing: [...missing] };
+  }, [summary, rates, baseCurrency]);
+
+  // Presupuestos excedidos en el mes actual
+  const overBudget = useMemo(
+    () => budgetRows(budgets || [], categories, inBase.txs, monthKey(todayStr())).filter((r) => r.remainingCents < 0),
+    [budgets, categories, inBase]
+  );
 
   // Add transaction
   const addTx = () => {
@@ -348,11 +5454,71 @@ export default function App() {
       alert("Monto inválido");
       return;
     }
+    let amountToCents: number | undefined;
+    if (crossCurrency) {
+      amountToCents = formAmountTo;
+      if (amountToCents <= 0) {
+        alert(`Indica cuánto llegó en ${toCurrency} o registra una tasa de cambio`);
+        return;
+      }
+    }
+    const original =
+      !isTransf && form.originalCurrency && form.originalCurrency !== formCurrency
+        ? { originalCurrency: form.originalCurrency as string, originalAmountCents: toCents(form.originalAmount) }
+        : null;
+    if (original && original.originalAmountCents <= 0) {
+      alert("Monto original inválido");
+      return;
+    }
+    let splits: TxSplit[] | null = null;
+    if (isGasto && form.splits.length) {
+      splits = form.splits.map((l: any) => ({ categoryId: l.categoryId || null, amountCents: toCents(l.amount), note: (l.note || "").trim() || null }));
+      if (splits!.some((l) => l.amountCents <= 0 || !l.categoryId)) {
+        alert("Cada línea de la división necesita categoría y monto");
+        return;
+      }
+      const left = amountCents - splits!.reduce((acc, l) => acc + l.amountCents, 0);
+      if (left) {
+        alert(`Las líneas deben sumar el total: ${left > 0 ? "faltan" : "sobran"} ${fmtMoney(Math.abs(left), formCurrency)}`);
+        return;
+      }
+    }
+    if (isGasto && (splits || form.categoryId)) {
+      const others = inBase.txs.filter((t) => t.id !== form.editingId);
+      const amountBase = convertCents(amountCents, formCurrency, baseCurrency, rates, form.date) ?? amountCents;
+      const parts = txCategoryParts({ categoryId: form.categoryId, splits } as Tx, amountBase);
+      const added = (categoryId: string) =>
+        parts.filter((p) => p.categoryId === categoryId || rootCategoryId(categories, p.categoryId) === categoryId).reduce((acc, p) => acc + p.amountCents, 0);
+      const pushed = budgetRows(budgets || [], categories, others, monthKey(form.date)).filter(
+        (r) => added(r.budget.categoryId) > 0 && r.remainingCents >= 0 && r.remainingCents - added(r.budget.categoryId) < 0
+      );
+      if (pushed.length) {
+        const detail = pushed
+          .map((r) => `${categoryPath(categories, r.budget.categoryId)} (${fmtMoney(r.remainingCents - added(r.budget.categoryId), baseCurrency)})`)
+          .join(", ");
+        if (!confirm(`Este gasto supera el presupuesto de ${detail}. ¿Guardar de todas formas?`)) return;
+      }
+    }
+    // A new payee name creates the payee; the first category used with it becomes its default
+    const payeeName = (form.payee || "").trim();
+    let payee = payeeName ? findPayee(payees, payeeName) : undefined;
+    const txCategory = isTransf ? null : form.splits.length && isGasto ? form.splits[0].categoryId : form.categoryId;
+    if (payeeName && !payee) {
+      payee = { id: newId(), name: payeeName, defaultCategoryId: txCategory, updatedAt: Date.now() };
+      setPayees((prev) => [...prev, payee!]);
+    } else if (payee && !payee.defaultCategoryId && txCategory) {
+      const id = payee.id;
+      setPayees((prev) => prev.map((p) => (p.id === id ? { ...p, defaultCategoryId: txCategory, updatedAt: Date.now() } : p)));
+    }
+    const tags = parseTags(form.tags);
     const base = {
-      id: crypto.randomUUID?.() || String(Math.random()),
+      id: newId(),
       amountCents,
       date: form.date,
       note: (form.note || "").trim() || null,
+      ...(payee ? { payeeId: payee.id } : {}),
+      ...(tags.length ? { tags } : {}),
+      ...(form.attachments.length ? { attachments: form.attachments } : {}),
       createdAt: Date.now(),
       updatedAt: Date.now(),
       categoryId: null as string | null,
@@ -361,29 +5527,487 @@ export default function App() {
       accountToId: null as string | null,
     };
     let tx: Tx;
-    if (isIngreso) tx = { ...(base as any), type: "INGRESO", accountToId: form.accountToId, categoryId: form.categoryId };
-    else if (isGasto) tx = { ...(base as any), type: "GASTO", accountFromId: form.accountFromId, categoryId: form.categoryId, paymentMethod: form.paymentMethod };
-    else tx = { ...(base as any), type: "TRANSFERENCIA", accountFromId: form.accountFromId, accountToId: form.accountToId };
-    setTxs((prev) => [tx, ...(prev || [])]);
-    setForm((f: any) => ({ ...f, amount: "0", note: "" }));
+    if (isIngreso) tx = { ...(base as any), type: "INGRESO", accountToId: form.accountToId, categoryId: form.categoryId, ...original };
+    else if (isGasto) {
+      const installments = fromCredit ? Math.max(1, Math.min(36, parseInt(form.installments, 10) || 1)) : 1;
+      tx = {
+        ...(base as any),
+        type: "GASTO",
+        accountFromId: form.accountFromId,
+        categoryId: splits ? splits[0].categoryId : form.categoryId,
+        paymentMethod: form.paymentMethod,
+        ...(installments > 1 ? { installments } : {}),
+        ...(splits ? { splits } : {}),
+        ...original,
+      };
+    } else
+      tx = {
+        ...(base as any),
+        type: "TRANSFERENCIA",
+        accountFromId: form.accountFromId,
+        accountToId: form.accountToId,
+        ...(amountToCents ? { amountToCents } : {}),
+        ...(formGoal ? { goalId: formGoal.id } : {}),
+      };
+
+    if (form.editingId) {
+      const old = (txs || []).find((t) => t.id === form.editingId);
+      if (old) {
+        const updated: Tx = {
+          ...old,
+          installments: undefined,
+          amountToCents: undefined,
+          originalCurrency: undefined,
+          originalAmountCents: undefined,
+          splits: undefined,
+          payeeId: undefined,
+          tags: undefined,
+          attachments: undefined,
+          goalId: undefined,
+          ...tx,
+          id: old.id,
+          createdAt: old.createdAt,
+          updatedAt: Date.now(),
+        };
+        // it stays a loan movement only while it moves the same kind of money in the loan's currency
+        const loan = old.loanId ? (loans || []).find((l) => l.id === old.loanId) : undefined;
+        const loanAccount = (accounts || []).find((a) => a.id === (updated.type === "GASTO" ? updated.accountFromId : updated.accountToId));
+        if (old.loanId && !(loan && updated.type === old.type && loanAccount && accountCurrency(loanAccount) === loan.currency)) updated.loanId = undefined;
+        if (Object.keys(diffTx(old, updated)).length) txUndo.commit("Editar movimiento", [{ before: old, after: updated }]);
+      }
+      cancelEdit();
+      return;
+    }
+
+    // Repeating or future-dated: store a rule; the first occurrence posts now if it is already due
+    if (form.repeat !== "NONE" || form.date > todayStr()) {
+      // the files belong to this movement, not to the ones the rule posts later
+      const { id, date, createdAt, updatedAt, recurringId, attachments, ...template } = tx;
+      const repeats = form.repeat !== "NONE";
+      const rule: RecurringRule = {
+        id: newId(),
+        tx: template,
+        frequency: repeats ? form.repeat : "DAILY",
+        interval: Math.max(1, parseInt(form.interval, 10) || 1),
+        startDate: form.date,
+        endDate: repeats && form.endMode === "DATE" ? form.endDate || null : null,
+        count: !repeats ? 1 : form.endMode === "COUNT" ? Math.max(1, parseInt(form.count, 10) || 1) : null,
+        autoPost: !!form.autoPost,
+        handled: {},
+        overrides: {},
+        createdAt: Date.now(),
+      };
+      if (form.date <= todayStr()) {
+        rule.handled[form.date] = "POSTED";
+        txUndo.commit("Agregar movimiento", [
+          { before: null, after: { ...tx, recurringId: rule.id }, occurrence: { ruleId: rule.id, scheduledDate: form.date } },
+        ]);
+      }
+      setRules((prev) => [...(prev || []), rule]);
+      setForm((f: any) => ({
+        ...f,
+        amount: "0",
+        amountTo: "",
+        originalAmount: "",
+        note: "",
+        splits: [],
+        payee: "",
+        tags: "",
+        attachments: [],
+        goalId: "",
+        repeat: "NONE",
+      }));
+      return;
+    }
+
+    txUndo.commit("Agregar movimiento", [{ before: null, after: tx }]);
+    setForm((f: any) => ({ ...f, amount: "0", amountTo: "", originalAmount: "", note: "", splits: [], payee: "", tags: "", attachments: [], goalId: "" }));
+  };
+
+  // Edit: load a transaction back into the form
+  const startEdit = (t: Tx) => {
+    if (t.reconciled) {
+      alert("Este movimiento está conciliado. Desbloquéalo para editarlo.");
+      return;
+    }
+    setForm((f: any) => ({
+      ...f,
+      type: t.type,
+      date: t.date,
+      amount: centsToInput(t.amountCents),
+      accountFromId: t.accountFromId || f.accountFromId,
+      accountToId: t.accountToId || f.accountToId,
+      paymentMethod: t.paymentMethod || (t.type === "GASTO" ? "OTRA" : f.paymentMethod),
+      categoryId: t.categoryId,
+      note: t.note || "",
+      installments: String(t.installments || 1),
+      amountTo: t.amountToCents != null ? centsToInput(t.amountToCents) : "",
+      originalCurrency: t.originalCurrency || "",
+      originalAmount: t.originalAmountCents != null ? centsToInput(t.originalAmountCents) : "",
+      splits: (t.splits || []).map((l) => ({ categoryId: l.categoryId, amount: centsToInput(l.amountCents), note: l.note || "" })),
+      payee: payees.find((p) => p.id === t.payeeId)?.name || "",
+      tags: (t.tags || []).join(", "),
+      attachments: t.attachments || [],
+      goalId: t.goalId || "",
+      repeat: "NONE",
+      editingId: t.id,
+    }));
+    setTab("dashboard");
+    window.scrollTo?.(0, 0);
+  };
+  const cancelEdit = () =>
+    setForm((f: any) => ({
+      ...f,
+      amount: "0",
+      amountTo: "",
+      originalCurrency: "",
+      originalAmount: "",
+      note: "",
+      installments: "1",
+      splits: [],
+      payee: "",
+      tags: "",
+      attachments: [],
+      goalId: "",
+      editingId: null,
+    }));
+
+  const revertTx = (txId: string, index: number) => {
+    const t = (txs || []).find((x) => x.id === txId);
+    const hist = (txHistory || {})[txId] || [];
+    if (!t || !hist[index]) return;
+    if (t.reconciled) {
+      alert("Este movimiento está conciliado. Desbloquéalo para revertirlo.");
+      return;
+    }
+    if (!confirm("¿Volver el movimiento a como estaba antes de este cambio?")) return;
+    const reverted: Tx = { ...rollbackTx(t, hist, index), updatedAt: Date.now() };
+    if (!Object.keys(diffTx(t, reverted)).length) return;
+    txUndo.commit("Revertir cambio", [{ before: t, after: reverted }]);
+  };
+  const [historyOpen, setHistoryOpen] = useState<string | null>(null);
+  const fmtField = (f: TrackedField, v: any, t: Tx) => {
+    if (v == null || v === "") return "—";
+    if (f === "amountCents") return fmtMoney(v, txCurrency(accounts, t));
+    if (f === "amountToCents") return fmtMoney(v, accountCurrency(accounts.find((a) => a.id === t.accountToId)));
+    if (f === "originalAmountCents") return fmtMoney(v, t.originalCurrency || DEFAULT_CURRENCY);
+    if (f === "accountFromId" || f === "accountToId") return accounts.find((a) => a.id === v)?.name || v;
+    if (f === "categoryId") return categoryLabel(categories, v) || v;
+    if (f === "paymentMethod") return PAYMENT_METHODS.find((m) => m.id === v)?.label || v;
+    if (typeof v === "boolean") return v ? "Sí" : "No";
+    if (f === "payeeId") return payees.find((p) => p.id === v)?.name || v;
+    if (f === "tags") return (v as string[]).join(", ") || "—";
+    if (f === "goalId") return goals.find((g) => g.id === v)?.name || v;
+    if (f === "loanId") return payees.find((p) => p.id === loans.find((l) => l.id === v)?.payeeId)?.name || "Préstamo";
+    if (f === "attachments") return (v as AttachmentRef[]).map((a) => a.name).join(", ") || "—";
+    if (f === "splits")
+      return (v as TxSplit[]).map((l) => `${categoryLabel(categories, l.categoryId) || "—"} ${fmtMoney(l.amountCents, txCurrency(accounts, t))}`).join(", ");
+    return String(v);
+  };
+
+  // Delete / bulk operations (all undoable)
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const toggleSelected = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  const removeTxs = (ids: string[], label: string) => {
+    const list = txs || [];
+    const locked = list.filter((t) => ids.includes(t.id) && t.reconciled).length;
+    txUndo.commit(
+      label,
+      list.flatMap((t, index) => (ids.includes(t.id) && !t.reconciled ? [{ before: t, after: null, index }] : []))
+    );
+    setSelected((prev) => new Set([...prev].filter((id) => !ids.includes(id))));
+    if (locked) alert(`${locked} movimiento(s) conciliado(s) no se borraron`);
+  };
+  // One undoable step for every movement `update` changes (null = leave it); reconciled ones are locked and only counted
+  const updateTxs = (label: string, update: (t: Tx) => Tx | null) => {
+    const now = Date.now();
+    let locked = 0;
+    const changes = (txs || []).flatMap((t) => {
+      const after = update(t);
+      if (!after || !Object.keys(diffTx(t, after)).length) return [];
+      if (t.reconciled) {
+        locked++;
+        return [];
+      }
+      return [{ before: t, after: { ...after, updatedAt: now } }];
+    });
+    txUndo.commit(label, changes);
+    return locked;
+  };
+  const bulkUpdate = (label: string, update: (t: Tx) => Tx | null) => {
+    let skipped = 0;
+    const locked = updateTxs(label, (t) => {
+      if (!selected.has(t.id)) return null;
+      const after = update(t);
+      if (!after) skipped++;
+      return after;
+    });
+    if (skipped + locked) alert(`${skipped + locked} movimiento(s) no aplican y se dejaron igual`);
+  };
+  const bulkRecategorize = (categoryId: string) => {
+    const cat = categories.find((c) => c.id === categoryId);
+    if (!cat) return;
+    bulkUpdate("Recategorizar", (t) => (t.type === cat.kind && !t.splits?.length ? { ...t, categoryId } : null));
+  };
+  const bulkMove = (accountId: string) =>
+    bulkUpdate("Mover de cuenta", (t) => {
+      if (t.type === "GASTO") return { ...t, accountFromId: accountId, paymentMethod: "OTRA" };
+      if (t.type === "INGRESO") return { ...t, accountToId: accountId };
+      return null;
+    });
+
+  // Receipts can be added to any movement, reconciled ones included: they do not touch amounts
+  const attachToTx = (t: Tx, refs: AttachmentRef[]) =>
+    txUndo.commit("Adjuntar comprobante", [{ before: t, after: { ...t, attachments: [...(t.attachments || []), ...refs], updatedAt: Date.now() } }]);
+  const detachFromTx = (t: Tx, id: string) => {
+    const rest = (t.attachments || []).filter((a) => a.id !== id);
+    txUndo.commit("Quitar comprobante", [{ before: t, after: { ...t, attachments: rest.length ? rest : undefined, updatedAt: Date.now() } }]);
   };
 
+  const [bulkTag, setBulkTag] = useState("");
+  const bulkAddTags = () => {
+    const add = parseTags(bulkTag);
+    bulkUpdate("Etiquetar", (t) => ({ ...t, tags: parseTags([...(t.tags || []), ...add].join(",")) }));
+    setBulkTag("");
+  };
+
+  // Reconciliation: the checked movements get locked and the difference is posted as an adjustment
+  const [reconciling, setReconciling] = useState<string | null>(null);
+  const reconcilingAccount = accounts.find((a) => a.id === reconciling);
+  const finishReconcile = (accountId: string, { date, balanceCents, clearedIds, adjustment }: ReconcileResult) => {
+    const now = Date.now();
+    txUndo.commit("Conciliar cuenta", [
+      ...(txs || []).flatMap((t) => (clearedIds.includes(t.id) ? [{ before: t, after: { ...t, cleared: true, reconciled: true, updatedAt: now } }] : [])),
+      ...(adjustment ? [{ before: null, after: adjustment }] : []),
+    ]);
+    setAccounts((prev) => prev.map((a) => (a.id === accountId ? { ...a, lastReconciliation: { date, balanceCents } } : a)));
+    setReconciling(null);
+  };
+  const unlockTx = (t: Tx) => {
+    if (!confirm("Este movimiento ya fue conciliado. Si lo cambias, el saldo conciliado dejará de cuadrar. ¿Desbloquearlo?")) return;
+    txUndo.commit("Desbloquear movimiento", [{ before: t, after: { ...t, reconciled: undefined, updatedAt: Date.now() } }]);
+  };
+
+  // Statement cycles of every card: one pass over the movements per card, not per render of each card
+  const cycles = useMemo(() => new Map(accounts.map((a) => [a.id, creditStatements(a, txs || [])])), [accounts, txs]);
+
+  // Card payment: show which statement the transfer pays
+  const paymentCycle = useMemo(() => {
+    const to = accounts.find((a) => a.id === form.accountToId);
+    return isTransf && to ? cycles.get(to.id) || null : null;
+  }, [isTransf, form.accountToId, accounts, cycles]);
+
+  const pendingDue = useMemo(() => pendingOccurrences(rules || [], todayStr()), [rules]);
+
   // Export / Import
-  const exportCSV = () => {
-    const csv = buildCSV(txs || []);
+  // What the report filters select: a date range comes straight from the date index (after pending writes), the rest of
+  // the filter is applied on top; without dates, from memory
+  const exportCSV = async () => {
+    let list = txs || [];
+    if (filter.from && filter.to && filter.from > filter.to) list = [];
+    else if (filter.from || filter.to) {
+      const range =
+        filter.from && filter.to
+          ? IDBKeyRange.bound(filter.from, filter.to)
+          : filter.from
+            ? IDBKeyRange.lowerBound(filter.from)
+            : IDBKeyRange.upperBound(filter.to);
+      try {
+        list = await enqueue(store, () => queryTransactions(store, "date", range));
+      } catch (err) {
+        alert(`No se pudo exportar: ${storageErrorMessage(err)}`);
+        return;
+      }
+    }
+    const csv = buildCSV(filterTxs(list, filter, categories), payees);
     const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = "hasaba-transacciones.csv";
+    a.download = reportPeriod === "__all__" || reportPeriod === "__custom__" ? "hasaba-transacciones.csv" : `hasaba-transacciones-${reportPeriod}.csv`;
     a.click();
     URL.revokeObjectURL(url);
   };
+  // Backup / restore
+  const backupData: BackupData = {
+    accounts,
+    categories,
+    payees,
+    goals,
+    valuations,
+    loans,
+    transactions: txs || [],
+    budgets: budgets || [],
+    recurring: rules || [],
+    rates,
+    settings,
+    txHistory: txHistory || {},
+  };
+  const restoreBackup = async (data: Partial<BackupData>, mode: RestoreMode, files: BackupFile[] = []) => {
+    // files first: if they do not fit, nothing else changes
+    await importAttachments(store, files);
+    const next = mode === "MERGE" ? mergeBackup(backupData, data) : data;
+    if (next.accounts) setAccounts(next.accounts);
+    if (next.categories) setCategories(next.categories);
+    if (next.payees) setPayees(next.payees);
+    if (next.goals) setGoals(next.goals);
+    if (next.valuations) setValuations(next.valuations);
+    if (next.loans) setLoans(next.loans);
+    if (next.transactions) setTxs(next.transactions);
+    if (next.budgets) setBudgets(next.budgets);
+    if (next.recurring) setRules(next.recurring);
+    if (next.rates) setRates(next.rates);
+    if (next.settings) setSettings(next.settings);
+    if (next.txHistory) setTxHistory(next.txHistory);
+    txUndo.reset();
+    cancelEdit();
+    setSelected(new Set());
+  };
+
+  // Sync with a self-hosted server: on open, every minute, when the connection comes back and on demand
+  const [syncConfig, setSyncConfig] = useState<SyncConfig | null>(null);
+  const [syncStatus, setSyncStatus] = useState<{ busy: boolean; error: string | null }>({ busy: false, error: null });
+  useEffect(() => {
+    readSyncConfig(store.db)
+      .then(setSyncConfig)
+      .catch(() => undefined);
+  }, []); // eslint-disable-line
+  const syncSetters: Partial<Record<StoreName, (fn: (prev: any) => any) => void>> = {
+    accounts: setAccounts,
+    categories: setCategories,
+    payees: setPayees,
+    goals: setGoals,
+    valuations: setValuations,
+    loans: setLoans,
+    transactions: setTxs,
+    budgets: setBudgets,
+    recurring: setRules,
+    rates: setRates,
+    txHistory: setTxHistory,
+  };
+  const syncBusy = useRef(false);
+  const syncData = useRef(backupData);
+  syncData.current = backupData;
+  const syncNow = async () => {
+    if (!syncConfig || syncBusy.current) return;
+    syncBusy.current = true;
+    setSyncStatus({ busy: true, error: null });
+    try {
+      const result = await runSync(store, syncData.current, syncConfig);
+      for (const [name, change] of Object.entries(result.changes) as [StoreName, NonNullable<SyncChanges[StoreName]>][])
+        syncSetters[name]?.((prev) => applySyncChanges(name, prev, change));
+      setSyncConfig(result.config);
+      setSyncStatus({ busy: false, error: null });
+    } catch (err: any) {
+      const error = !navigator.onLine ? "sin conexión" : err?.name === "AbortError" ? "el servidor no respondió" : storageErrorMessage(err);
+      setSyncStatus({ busy: false, error });
+    } finally {
+      syncBusy.current = false;
+    }
+  };
+  const syncRef = useRef(syncNow);
+  syncRef.current = syncNow;
+  useEffect(() => {
+    if (!syncConfig) return;
+    const run = () => syncRef.current();
+    run();
+    const timer = setInterval(run, SYNC_INTERVAL_MS);
+    window.addEventListener("online", run);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("online", run);
+    };
+  }, [syncConfig?.url, syncConfig?.token]); // eslint-disable-line
+  const saveSync = async (url: string, token: string) => {
+    const sameServer = syncConfig?.url === url;
+    const next: SyncConfig = sameServer ? { ...syncConfig!, token } : { url, token, cursor: 0, lastSyncAt: null };
+    if (!sameServer) await enqueue(store, () => resetSyncLog(store));
+    await putMeta(store.db, "sync", next);
+    setSyncConfig(next);
+  };
+  const disableSync = async () => {
+    await putMeta(store.db, "sync", null);
+    setSyncConfig(null);
+    setSyncStatus({ busy: false, error: null });
+  };
+
+  // PIN: turning it on, changing it or removing it re-encrypts the whole database
+  const [security, setSecurity] = useState(initialSecurity);
+  const enablePin = async (pin: string, lockMinutes: number) => {
+    const next = await createSecurity(pin, lockMinutes);
+    await enqueue(store, () => rewriteDatabase(store, backupData, next.key, next.security));
+    setSecurity(next.security);
+  };
+  const changePin = async (currentPin: string, pin: string) => {
+    if (!security || !(await unlockKey(security, currentPin))) return false;
+    const next = await createSecurity(pin, security.lockMinutes);
+    await enqueue(store, () => rewriteDatabase(store, backupData, next.key, next.security));
+    setSecurity(next.security);
+    return true;
+  };
+  const disablePin = async (currentPin: string) => {
+    if (!security || !(await unlockKey(security, currentPin))) return false;
+    await enqueue(store, () => rewriteDatabase(store, backupData, null, null));
+    setSecurity(null);
+    return true;
+  };
+  const setLockMinutes = (lockMinutes: number) => {
+    if (!security) return;
+    const next = { ...security, lockMinutes };
+    setSecurity(next);
+    enqueue(store, () => putMeta(store.db, "security", next)).catch((err) => alert(`No se pudo guardar: ${storageErrorMessage(err)}`));
+  };
+
+  // Lock after `lockMinutes` without touching the app (time in the background counts too)
+  useEffect(() => {
+    if (!security) return;
+    let last = Date.now();
+    let locked = false;
+    const touch = () => (last = Date.now());
+    const check = () => {
+      if (locked || Date.now() - last < security.lockMinutes * 60000) return;
+      locked = true;
+      onLock();
+    };
+    const events = ["pointerdown", "keydown", "scroll"];
+    events.forEach((e) => window.addEventListener(e, touch, { passive: true }));
+    document.addEventListener("visibilitychange", check);
+    const timer = setInterval(check, 15000);
+    return () => {
+      events.forEach((e) => window.removeEventListener(e, touch));
+      document.removeEventListener("visibilitychange", check);
+      clearInterval(timer);
+    };
+  }, [security]); // eslint-disable-line
+
+  const [csvImport, setCsvImport] = useState<{ fileName: string; text: string } | null>(null);
   const importCSV = (file: File) => {
     const reader = new FileReader();
-    reader.onload = (e: any) => setTxs((prev) => [...parseCSV(e.target.result as string), ...(prev || [])]);
+    reader.onload = (e: any) => setCsvImport({ fileName: file.name, text: e.target.result as string });
+    reader.readAsText(file);
+  };
+  const [statementImport, setStatementImport] = useState<{ fileName: string; text: string; format: StatementFormat } | null>(null);
+  const importStatement = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e: any) => {
+      const text = e.target.result as string;
+      const format: StatementFormat = /<OFX>|OFXHEADER/i.test(text) ? "ofx" : "qif";
+      setStatementImport({ fileName: file.name, text, format });
+    };
     reader.readAsText(file);
   };
+  const commitImport = (label: string, imported: Tx[]) => {
+    txUndo.commit(
+      label,
+      imported.map((t, index) => ({ before: null, after: t, index }))
+    );
+  };
 
   // Reports helpers
   const last12 = Array.from({ length: 12 }).map((_, i) => {
@@ -391,55 +6015,183 @@ export default function App() {
     d.setMonth(d.getMonth() - i);
     return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
   });
-  const [reportMonth, setReportMonth] = useState<string>("__all__");
-  const txsFiltered = useMemo(() => {
-    if (reportMonth === "__all__") return txs;
-    return (txs || []).filter((t) => monthKey(t.date) === reportMonth);
-  }, [txs, reportMonth]);
+  const [filter, setFilter] = useState<TxFilter>(emptyTxFilter);
+  const setFilterField = (field: keyof TxFilter, value: string) => setFilter((f) => ({ ...f, [field]: value }));
+  const reportPeriod =
+    !filter.from && !filter.to ? "__all__" : last12.find((m) => monthRange(m).from === filter.from && monthRange(m).to === filter.to) || "__custom__";
+  const txsFiltered = useMemo(() => filterTxs(txs, filter, categories), [txs, filter, categories]);
+  // bulk actions only reach rows the table shows: rows a filter or an edit hides leave the selection
+  useEffect(
+    () =>
+      setSelected((prev) => {
+        const visible = new Set((txsFiltered || []).map((t) => t.id));
+        const next = new Set([...prev].filter((id) => visible.has(id)));
+        return next.size === prev.size ? prev : next;
+      }),
+    [txsFiltered]
+  );
+
+  // Saved views live in settings so they survive reloads and travel in backups
+  const reportViews = settings.reportViews || [];
+  const [viewName, setViewName] = useState("");
+  const activeView = reportViews.find((v) => (Object.keys(emptyTxFilter) as (keyof TxFilter)[]).every((k) => (v.filter[k] ?? "") === filter[k]));
+  const saveView = () => {
+    const name = viewName.trim();
+    if (!name) return alert("Ponle un nombre a la vista");
+    const existing = reportViews.find((v) => normalizeText(v.name) === normalizeText(name));
+    if (existing && !confirm(`Ya existe la vista "${existing.name}". ¿Reemplazarla?`)) return;
+    setSettings((prev) => ({
+      ...prev,
+      reportViews: existing
+        ? (prev.reportViews || []).map((v) => (v.id === existing.id ? { ...v, name, filter } : v))
+        : [...(prev.reportViews || []), { id: newId(), name, filter }],
+    }));
+    setViewName("");
+  };
+  const removeView = (id: string) => setSettings((prev) => ({ ...prev, reportViews: (prev.reportViews || []).filter((v) => v.id !== id) }));
+
+  // Spending totals by purchase date or by the date each cuota is billed
+  const [spendBasis, setSpendBasis] = useState<SpendBasis>("COMPRA");
+  // Same filter as the table; the date range applies to each line, i.e. to the cuota's date on the CUOTA basis
+  const baseFiltered = useMemo(() => {
+    const ids = new Set(txs.filter((t) => t && matchesTxFilter(filter, t, categories)).map((t) => t.id));
+    return inBase.txs.filter((t) => ids.has(t.id));
+  }, [inBase, txs, filter, categories]);
+  const gastosFiltered = useMemo(
+    () =>
+      gastoLines(baseFiltered, spendBasis, accounts).filter(
+        (l) =>
+          inDateRange(filter, l.date) &&
+          (!filter.categoryId || l.categoryId === filter.categoryId || rootCategoryId(categories, l.categoryId) === filter.categoryId)
+      ),
+    [baseFiltered, spendBasis, accounts, filter, categories]
+  );
 
   const gastosPorCuenta = useMemo(() => {
     const map: Record<string, number> = {};
-    (txsFiltered || []).forEach((t) => {
-      if (t.type !== "GASTO") return;
-      const acc = accounts.find((a) => a.id === t.accountFromId);
+    gastosFiltered.forEach((l) => {
+      const acc = accounts.find((a) => a.id === l.tx.accountFromId);
       const name = acc?.name || "—";
-      map[name] = (map[name] || 0) + t.amountCents;
+      map[name] = (map[name] || 0) + l.amountCents;
     });
     return Object.entries(map).map(([name, value]) => ({ name, value }));
-  }, [txsFiltered, accounts]);
+  }, [gastosFiltered, accounts]);
 
+  // Rolled up by parent category; children kept for drill-down
   const gastosPorCategoria = useMemo(() => {
-    const map: Record<string, number> = {};
-    (txsFiltered || []).forEach((t) => {
-      if (t.type !== "GASTO") return;
-      const cat = categories.find((c) => c.id === t.categoryId)?.name || "Sin categoría";
-      map[cat] = (map[cat] || 0) + t.amountCents;
+    const map: Record<string, { id: string; name: string; color: string; value: number; children: Record<string, number> }> = {};
+    gastosFiltered.forEach((l) => {
+      const rootId = rootCategoryId(categories, l.categoryId);
+      const root = categories.find((c) => c.id === rootId);
+      const key = root?.id || "__none__";
+      const entry = (map[key] ??= { id: key, name: root ? `${root.icon || ""} ${root.name}`.trim() : "Sin categoría", color: root?.color || PALETTE.line, value: 0, children: {} });
+      entry.value += l.amountCents;
+      const child = l.categoryId !== rootId ? categories.find((c) => c.id === l.categoryId)?.name : null;
+      const childName = child || "General";
+      entry.children[childName] = (entry.children[childName] || 0) + l.amountCents;
     });
-    return Object.entries(map).map(([name, value]) => ({ name, value }));
-  }, [txsFiltered, categories]);
+    return Object.values(map)
+      .sort((a, b) => b.value - a.value)
+      .map((e) => ({
+        ...e,
+        children: Object.entries(e.children)
+          .map(([name, value]) => ({ name, value }))
+          .sort((a, b) => b.value - a.value),
+      }));
+  }, [gastosFiltered, categories]);
+  const [openCategory, setOpenCategory] = useState<string | null>(null);
 
-  const gastosPorMes = useMemo(() => {
-    const map: Record<string, number> = {};
-    (txs || []).forEach((t) => {
-      if (t.type !== "GASTO") return;
-      const k = monthKey(t.date);
-      map[k] = (map[k] || 0) + t.amountCents;
+  // Tapping a row filters the table by that payee or tag. A movement with several tags counts under each of them.
+  const gastosPorBeneficiario = useMemo(() => {
+    const map: Record<string, { id: string; name: string; value: number }> = {};
+    gastosFiltered.forEach((l) => {
+      const payee = payees.find((p) => p.id === l.tx.payeeId);
+      const entry = (map[payee?.id || "__none__"] ??= { id: payee?.id || "__none__", name: payee?.name || "Sin beneficiario", value: 0 });
+      entry.value += l.amountCents;
     });
-    const keys = Object.keys(map).sort().slice(-6);
-    return keys.map((k) => ({ name: k, value: map[k] }));
-  }, [txs]);
+    return Object.values(map).sort((a, b) => b.value - a.value);
+  }, [gastosFiltered, payees]);
+  const gastosPorEtiqueta = useMemo(() => {
+    const map: Record<string, { name: string; value: number }> = {};
+    gastosFiltered.forEach((l) => {
+      for (const tag of l.tx.tags || []) {
+        const entry = (map[normalizeText(tag)] ??= { name: tag, value: 0 });
+        entry.value += l.amountCents;
+      }
+    });
+    return Object.values(map).sort((a, b) => b.value - a.value);
+  }, [gastosFiltered]);
+
+  // Tapping a slice filters the table by that category; tapping it again clears it
+  const toggleCategoryFilter = (id: string) => {
+    if (id === "__none__") return;
+    setFilter((f) => ({ ...f, categoryId: f.categoryId === id ? "" : id }));
+  };
+
+  // The trend has its own window, so it ignores the date range but follows the other filters
+  const [trendMonths, setTrendMonths] = useState(12);
+  const flujoMensual = useMemo(
+    () => monthlyFlow(cashFlowLines(baseFiltered, spendBasis, accounts), trendMonths),
+    [baseFiltered, spendBasis, accounts, trendMonths]
+  );
+  const flujoAcumulado = useMemo(
+    () => cumulativeFlow(cashFlowLines(baseFiltered, spendBasis, accounts).filter((l) => inDateRange(filter, l.date))),
+    [baseFiltered, spendBasis, accounts, filter]
+  );
+  const chartMoney = (v: any) => fmtMoney(Number(v), baseCurrency);
+
+  const plans = useMemo(() => installmentPlans(accounts, txs || []).filter((p) => p.remainingCents > 0), [accounts, txs]);
 
   // UI helpers
   const cardFor = (id: string) => {
     const s = summary.accounts.find((x: any) => x.account.id === id);
     if (!s) return null;
+    const cycle = cycles.get(id) || null;
+    const currency = accountCurrency(s.account);
     return (
       <div className="card" key={id}>
         <div style={{ opacity: 0.7, fontSize: 14, marginBottom: 6 }}>{s.account.name}</div>
-        <div style={{ fontSize: 28, fontWeight: 700 }}>{fmtCOP(s.balanceCents)}</div>
+        <div style={{ fontSize: 28, fontWeight: 700 }}>{fmtMoney(s.balanceCents, currency)}</div>
         {s.account.type === "CREDIT" && (
           <div style={{ fontSize: 12, opacity: 0.7, marginTop: 6 }}>
-            Disponible {fmtCOP(s.creditAvailableCents)} · Cupo {fmtCOP(s.account.creditLimitCents || 0)}
+            Disponible {fmtMoney(s.creditAvailableCents, currency)} · Cupo {fmtMoney(s.account.creditLimitCents || 0, currency)}
+          </div>
+        )}
+        {cycle && (
+          <div style={{ fontSize: 12, marginTop: 8, paddingTop: 8, borderTop: `1px solid ${PALETTE.line}`, display: "grid", gap: 2 }}>
+            {cycle.last ? (
+              <>
+                <div>
+                  Corte {cycle.last.closeDate}: <strong>{fmtMoney(cycle.last.balanceCents, currency)}</strong>
+                  {cycle.last.paidCents > 0 && ` · pagado ${fmtMoney(Math.min(cycle.last.paidCents, cycle.last.balanceCents), currency)}`}
+                </div>
+                {cycle.remainingCents > 0 ? (
+                  <>
+                    <div>
+                      Mínimo {fmtMoney(cycle.minimumCents, currency)} · Total {fmtMoney(cycle.remainingCents, currency)}
+                    </div>
+                    <div style={{ color: cycle.daysToDue != null && cycle.daysToDue < 0 ? "#C0392B" : undefined }}>
+                      {cycle.daysToDue != null && cycle.daysToDue >= 0
+                        ? `Vence ${cycle.last.dueDate} (${cycle.daysToDue === 0 ? "hoy" : `en ${cycle.daysToDue} días`})`
+                        : `Venció ${cycle.last.dueDate}`}
+                    </div>
+                    {cycle.last.interestCents > 0 && (
+                      <div style={{ color: "#C0392B" }}>Interés estimado por no pagar el total a tiempo: {fmtMoney(cycle.last.interestCents, currency)}</div>
+                    )}
+                    {cycle.projectedInterestCents > 0 && (
+                      <div style={{ opacity: 0.7 }}>Interés estimado si no pagas el total: {fmtMoney(cycle.projectedInterestCents, currency)}</div>
+                    )}
+                  </>
+                ) : (
+                  <div style={{ opacity: 0.7 }}>Corte pagado</div>
+                )}
+              </>
+            ) : (
+              <div style={{ opacity: 0.7 }}>Primer corte {cycle.nextClose}</div>
+            )}
+            <div style={{ opacity: 0.7 }}>
+              Compras desde el corte {fmtMoney(cycle.currentChargesCents, currency)} · próximo corte {cycle.nextClose}
+            </div>
           </div>
         )}
       </div>
@@ -451,16 +6203,30 @@ export default function App() {
       <div style={{ backgroundColor: PALETTE.bg, minHeight: "100vh", color: PALETTE.text }}>
         {/* Tabs */}
         <div style={{ position: "sticky", top: 0, zIndex: 10, padding: 8, backdropFilter: "blur(6px)" }}>
-          <div style={{ display: "flex", gap: 8, padding: 8, borderRadius: 16, background: "rgba(255,255,255,0.35)" }}>
+          <div style={{ display: "flex", gap: 8, padding: 8, borderRadius: 16, background: "rgba(255,255,255,0.35)", overflowX: "auto" }}>
             {[
               { id: "dashboard", label: "DASHBOARD" },
               { id: "reportes", label: "REPORTES" },
+              { id: "patrimonio", label: "PATRIMONIO" },
+              { id: "presupuesto", label: "PRESUPUESTO" },
+              { id: "recurrentes", label: "RECURRENTES" },
+              { id: "cuentas", label: "CUENTAS" },
+              { id: "monedas", label: "MONEDAS" },
+              { id: "categorias", label: "CATEGORÍAS" },
+              { id: "beneficiarios", label: "BENEFICIARIOS" },
+              { id: "metas", label: "METAS" },
+              { id: "inversiones", label: "INVERSIONES" },
+              { id: "prestamos", label: "PRÉSTAMOS" },
+              { id: "sincronizar", label: "SINCRONIZAR" },
+              { id: "respaldo", label: "RESPALDO" },
+              { id: "seguridad", label: "SEGURIDAD" },
             ].map((t) => (
               <button
                 key={t.id}
                 onClick={() => setTab(t.id as any)}
                 style={{
-                  flex: 1,
+                  flex: "1 0 auto",
+                  width: "auto",
                   height: 44,
                   borderRadius: 14,
                   color: tab === t.id ? "white" : PALETTE.text,
@@ -475,36 +6241,100 @@ export default function App() {
           </div>
         </div>
 
-        <div className="container">
+        <div className="container" style={{ paddingBottom: txUndo.undoLabel || txUndo.redoLabel ? 96 : undefined }}>
+          {Object.keys(storageErrors).length > 0 && (
+            <div className="card" style={{ marginBottom: 16, borderLeft: "4px solid #C0392B" }}>
+              <div style={{ fontWeight: 600, color: "#C0392B" }}>No se pudieron guardar los últimos cambios</div>
+              <div style={{ fontSize: 13, opacity: 0.7, marginTop: 4 }}>
+                {(Object.entries(storageErrors) as [StoreName, string][]).map(([name, error]) => `${BACKUP_ENTITIES[name].label}: ${error}`).join(" · ")}
+              </div>
+              <div style={{ fontSize: 13, marginTop: 4 }}>
+                Siguen en pantalla; se intentará de nuevo con el próximo cambio. Descarga un respaldo si el problema sigue.
+              </div>
+              <button style={{ width: "auto", marginTop: 8 }} onClick={() => setRetryToken((n) => n + 1)}>
+                Reintentar
+              </button>
+            </div>
+          )}
+
           {tab === "dashboard" && (
             <section style={{ display: "grid", gap: 16 }}>
               {/* Liquidez total */}
               <div className="card">
                 <div style={{ opacity: 0.7, fontSize: 14, marginBottom: 6 }}>Liquidez total</div>
-                <div style={{ fontSize: 28, fontWeight: 700 }}>{fmtCOP(liquidezCents)}</div>
+                <div style={{ fontSize: 28, fontWeight: 700 }}>{fmtMoney(liquidez.totalCents, baseCurrency)}</div>
+                {liquidez.missing.length > 0 && (
+                  <div style={{ fontSize: 12, color: "#C0392B", marginTop: 6 }}>
+                    Sin tasa de cambio para {liquidez.missing.join(", ")}: no se incluye en el total.
+                  </div>
+                )}
               </div>
 
-              {/* Daviplata - Nequi */}
-              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
-                {cardFor("daviplata")}
-                {cardFor("nequi")}
-              </div>
-              {/* Visa - Rotativo */}
-              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
-                {cardFor("visa")}
-                {cardFor("rotativo")}
-              </div>
-              {/* Empresa - Efectivo */}
-              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
-                {cardFor("empresa")}
-                {cardFor("efectivo")}
-              </div>
-              {/* Ahorros - Inversión */}
+              {/* Presupuestos excedidos */}
+              {overBudget.length > 0 && (
+                <div className="card" style={{ border: "2px solid #F28482" }}>
+                  <div style={{ fontWeight: 600, marginBottom: 8 }}>⚠️ Presupuestos excedidos este mes</div>
+                  <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+                    {overBudget.map((r) => (
+                      <li key={r.budget.categoryId} style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+                        <span>{categoryLabel(categories, r.budget.categoryId)}</span>
+                        <strong>{fmtMoney(-r.remainingCents, baseCurrency)} de más</strong>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Programados pendientes */}
+              {pendingDue.length > 0 && (
+                <div className="card" style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 12 }}>
+                  <span>
+                    {pendingDue.length} movimiento{pendingDue.length === 1 ? "" : "s"} programado{pendingDue.length === 1 ? "" : "s"} por confirmar
+                  </span>
+                  <button style={{ width: "auto" }} onClick={() => setTab("recurrentes")}>
+                    Revisar
+                  </button>
+                </div>
+              )}
+
+              {/* Cuentas */}
               <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
-                {cardFor("ahorros")}
-                {cardFor("inversion")}
+                {activeAccounts.map((a) => cardFor(a.id))}
               </div>
 
+              {/* Metas de ahorro */}
+              {goals.length > 0 && (
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
+                  {goals.map((g) => (
+                    <div key={g.id} className="card">
+                      <GoalProgressCard goal={g} account={accounts.find((a) => a.id === g.accountId)} txs={txs || []} />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Compras a cuotas */}
+              {plans.length > 0 && (
+                <div className="card">
+                  <div style={{ fontWeight: 600, marginBottom: 8 }}>Compras a cuotas</div>
+                  <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+                    {plans.map((p) => (
+                      <li key={p.tx.id} style={{ padding: "6px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+                        <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+                          <span>{p.tx.note || categoryLabel(categories, p.tx.categoryId) || "Compra"}</span>
+                          <strong>{fmtMoney(p.remainingCents, accountCurrency(p.account))}</strong>
+                        </div>
+                        <div style={{ fontSize: 12, opacity: 0.7 }}>
+                          {p.account.name} · {p.paidCount}/{p.schedule.length} cuotas pagadas
+                          {p.next && ` · próxima ${p.next.date}: ${fmtMoney(p.next.principalCents + p.next.interestCents, accountCurrency(p.account))}`}
+                          {p.interestCents > 0 && ` · intereses estimados ${fmtMoney(p.interestCents, accountCurrency(p.account))}`}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Formulario */}
               <div className="card">
                 <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16 }}>
@@ -513,7 +6343,7 @@ export default function App() {
                     <input type="date" value={form.date} onChange={(e) => onChange("date", e.target.value)} />
                   </div>
                   <div>
-                    <div style={{ fontSize: 13, opacity: 0.7 }}>Monto (COP)</div>
+                    <div style={{ fontSize: 13, opacity: 0.7 }}>Monto ({formCurrency})</div>
                     <input
                       type="number"
                       inputMode="decimal"
@@ -547,9 +6377,9 @@ export default function App() {
                     <select
                       value={form.accountFromId}
                       onChange={(e) => onChange("accountFromId", e.target.value)}
-                      disabled={isIngreso || isGasto}
+                      disabled={isIngreso || pmLocksAccount}
                     >
-                      {accounts.map((a) => (
+                      {activeAccounts.map((a) => (
                         <option key={a.id} value={a.id}>
                           {a.name}
                         </option>
@@ -559,7 +6389,7 @@ export default function App() {
                   <div>
                     <div style={{ fontSize: 13, opacity: 0.7 }}>Cuenta destino</div>
                     <select value={form.accountToId} onChange={(e) => onChange("accountToId", e.target.value)} disabled={isGasto}>
-                      {accounts.map((a) => (
+                      {activeAccounts.map((a) => (
                         <option key={a.id} value={a.id}>
                           {a.name}
                         </option>
@@ -567,6 +6397,86 @@ export default function App() {
                     </select>
                   </div>
                 </div>
+                {crossCurrency && (
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16, marginTop: 12, alignItems: "end" }}>
+                    <div>
+                      <div style={{ fontSize: 13, opacity: 0.7 }}>Monto recibido ({toCurrency})</div>
+                      <input
+                        type="number"
+                        inputMode="decimal"
+                        step="any"
+                        placeholder={suggestedAmountTo != null ? centsToInput(suggestedAmountTo) : "0"}
+                        value={form.amountTo}
+                        onChange={(e) => onChange("amountTo", e.target.value)}
+                      />
+                    </div>
+                    <div style={{ fontSize: 13, opacity: 0.7, paddingBottom: 12 }}>
+                      {formAmountTo > 0 && toCents(form.amount) > 0
+                        ? `1 ${formCurrency} = ${fmtRate(formAmountTo / toCents(form.amount))} ${toCurrency}`
+                        : `Sin tasa ${formCurrency}/${toCurrency} registrada`}
+                    </div>
+                  </div>
+                )}
+                {formGoals.length > 0 && (
+                  <div style={{ marginTop: 12 }}>
+                    <div style={{ fontSize: 13, opacity: 0.7 }}>Meta de ahorro</div>
+                    <select value={formGoal?.id || ""} onChange={(e) => onChange("goalId", e.target.value)}>
+                      <option value="">— Ninguna —</option>
+                      {formGoals.map((g) => (
+                        <option key={g.id} value={g.id}>
+                          {g.accountId === form.accountToId ? "Aporte a" : "Retiro de"} {g.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {!isTransf && (
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16, marginTop: 12 }}>
+                    <div>
+                      <div style={{ fontSize: 13, opacity: 0.7 }}>Pagado en otra moneda</div>
+                      <select value={form.originalCurrency} onChange={(e) => onChange("originalCurrency", e.target.value)}>
+                        <option value="">No ({formCurrency})</option>
+                        {CURRENCIES.filter((c) => c !== formCurrency).map((c) => (
+                          <option key={c} value={c}>
+                            {c}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {form.originalCurrency && form.originalCurrency !== formCurrency && (
+                      <div>
+                        <div style={{ fontSize: 13, opacity: 0.7 }}>Monto original ({form.originalCurrency})</div>
+                        <input
+                          type="number"
+                          inputMode="decimal"
+                          step="any"
+                          placeholder="0"
+                          value={form.originalAmount}
+                          onChange={(e) => onChange("originalAmount", e.target.value)}
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+                {paymentCycle?.last && paymentCycle.remainingCents > 0 && (
+                  <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8, fontSize: 13 }}>
+                    <span style={{ flex: 1 }}>
+                      Abona al corte del {paymentCycle.last.closeDate} · pendiente {fmtMoney(paymentCycle.remainingCents, toCurrency)}
+                    </span>
+                    <button
+                      style={{ width: "auto", height: 32 }}
+                      onClick={() => onChange(crossCurrency ? "amountTo" : "amount", centsToInput(paymentCycle.minimumCents))}
+                    >
+                      Mínimo
+                    </button>
+                    <button
+                      style={{ width: "auto", height: 32 }}
+                      onClick={() => onChange(crossCurrency ? "amountTo" : "amount", centsToInput(paymentCycle.remainingCents))}
+                    >
+                      Total
+                    </button>
+                  </div>
+                )}
 
                 <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16, marginTop: 12 }}>
                   <div>
@@ -574,13 +6484,13 @@ export default function App() {
                     <select
                       value={form.categoryId || ""}
                       onChange={(e) => onChange("categoryId", e.target.value)}
-                      disabled={isTransf}
+                      disabled={isTransf || splitting}
                     >
-                      {categories
-                        .filter((c) => (form.type === "GASTO" && c.kind === "GASTO") || (form.type === "INGRESO" && c.kind === "INGRESO"))
-                        .map((c) => (
+                      {!isTransf &&
+                        categoryTree(categories, form.type).map(({ category: c, depth }) => (
                           <option key={c.id} value={c.id}>
-                            {c.name}
+                            {depth ? "\u00A0\u00A0\u00A0› " : ""}
+                            {c.icon} {c.name}
                           </option>
                         ))}
                     </select>
@@ -591,6 +6501,107 @@ export default function App() {
                   </div>
                 </div>
 
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16, marginTop: 12 }}>
+                  <div>
+                    <div style={{ fontSize: 13, opacity: 0.7 }}>Beneficiario</div>
+                    <input type="text" list="payee-names" placeholder="Éxito, arriendo…" value={form.payee} onChange={(e) => onPayee(e.target.value)} />
+                    <datalist id="payee-names">
+                      {payees.map((p) => (
+                        <option key={p.id} value={p.name} />
+                      ))}
+                    </datalist>
+                  </div>
+                  <div>
+                    <div style={{ fontSize: 13, opacity: 0.7 }}>Etiquetas</div>
+                    <input
+                      type="text"
+                      list="tag-names"
+                      placeholder="viaje diciembre, hogar"
+                      value={form.tags}
+                      onChange={(e) => onChange("tags", e.target.value)}
+                    />
+                    <datalist id="tag-names">
+                      {allTags.map((tag) => (
+                        <option key={tag} value={[...parseTags(form.tags).slice(0, form.tags.trim().endsWith(",") ? undefined : -1), tag].join(", ")} />
+                      ))}
+                    </datalist>
+                  </div>
+                </div>
+
+                <div style={{ marginTop: 12 }}>
+                  <div style={{ fontSize: 13, opacity: 0.7 }}>Comprobantes</div>
+                  <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 4 }}>
+                    {form.attachments.map((a: AttachmentRef) => (
+                      <AttachmentChip
+                        key={a.id}
+                        store={store}
+                        attachment={a}
+                        onRemove={() => setForm((f: any) => ({ ...f, attachments: f.attachments.filter((x: AttachmentRef) => x.id !== a.id) }))}
+                      />
+                    ))}
+                    <AttachmentPicker store={store} onAdd={(refs) => setForm((f: any) => ({ ...f, attachments: [...f.attachments, ...refs] }))} />
+                  </div>
+                </div>
+
+                {isGasto && !splitting && (
+                  <button style={{ width: "auto", marginTop: 8 }} onClick={startSplit}>
+                    Dividir en varias categorías
+                  </button>
+                )}
+                {splitting && (
+                  <div style={{ marginTop: 12 }}>
+                    <div style={{ fontSize: 13, opacity: 0.7 }}>División por categoría</div>
+                    {form.splits.map((l: any, i: number) => (
+                      <div key={i} style={{ display: "grid", gridTemplateColumns: "2fr 1fr 2fr auto", gap: 8, marginTop: 8 }}>
+                        <select value={l.categoryId || ""} onChange={(e) => onSplit(i, "categoryId", e.target.value)}>
+                          {categoryTree(categories, "GASTO").map(({ category: c, depth }) => (
+                            <option key={c.id} value={c.id}>
+                              {depth ? "\u00A0\u00A0\u00A0› " : ""}
+                              {c.icon} {c.name}
+                            </option>
+                          ))}
+                        </select>
+                        <input inputMode="decimal" placeholder="0" value={l.amount} onChange={(e) => onSplit(i, "amount", e.target.value)} />
+                        <input type="text" placeholder="Nota" value={l.note} onChange={(e) => onSplit(i, "note", e.target.value)} />
+                        <button style={{ width: "auto" }} onClick={() => removeSplit(i)}>
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                    <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8 }}>
+                      <button
+                        style={{ width: "auto" }}
+                        onClick={() => onChange("splits", [...form.splits, { categoryId: form.categoryId, amount: "", note: "" }])}
+                      >
+                        Agregar línea
+                      </button>
+                      <span style={{ fontSize: 13, color: splitLeft ? "#C0392B" : undefined }}>
+                        {splitLeft ? `${splitLeft > 0 ? "Faltan" : "Sobran"} ${fmtMoney(Math.abs(splitLeft), formCurrency)}` : "Cuadra con el total ✓"}
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {fromCredit && (
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16, marginTop: 12, alignItems: "end" }}>
+                    <div>
+                      <div style={{ fontSize: 13, opacity: 0.7 }}>Cuotas</div>
+                      <select value={form.installments} onChange={(e) => onChange("installments", e.target.value)}>
+                        {Array.from({ length: 36 }).map((_, i) => (
+                          <option key={i + 1} value={String(i + 1)}>
+                            {i + 1}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {Number(form.installments) > 1 && toCents(form.amount) > 0 && (
+                      <div style={{ fontSize: 13, opacity: 0.7, paddingBottom: 12 }}>
+                        ≈ {fmtMoney(Math.round(toCents(form.amount) / Number(form.installments)), formCurrency)} de capital por cuota
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div className="seg" style={{ marginTop: 12 }}>
                   {["INGRESO", "GASTO", "TRANSFERENCIA"].map((t) => (
                     <button key={t} className={form.type === t ? "active" : ""} onClick={() => onChange("type", t)}>
@@ -599,6 +6610,61 @@ export default function App() {
                   ))}
                 </div>
 
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16, marginTop: 12 }}>
+                  <div>
+                    <div style={{ fontSize: 13, opacity: 0.7 }}>Repetir</div>
+                    <select value={form.repeat} onChange={(e) => onChange("repeat", e.target.value)}>
+                      <option value="NONE">No se repite</option>
+                      <option value="DAILY">Diario</option>
+                      <option value="WEEKLY">Semanal</option>
+                      <option value="MONTHLY">Mensual</option>
+                    </select>
+                  </div>
+                  <div>
+                    <div style={{ fontSize: 13, opacity: 0.7 }}>Cada</div>
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      min={1}
+                      value={form.interval}
+                      disabled={form.repeat === "NONE"}
+                      onChange={(e) => onChange("interval", e.target.value)}
+                    />
+                  </div>
+                </div>
+                {form.repeat !== "NONE" && (
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16, marginTop: 12 }}>
+                    <div>
+                      <div style={{ fontSize: 13, opacity: 0.7 }}>Termina</div>
+                      <select value={form.endMode} onChange={(e) => onChange("endMode", e.target.value)}>
+                        <option value="NEVER">Nunca</option>
+                        <option value="DATE">En una fecha</option>
+                        <option value="COUNT">Tras N veces</option>
+                      </select>
+                    </div>
+                    <div>
+                      {form.endMode === "DATE" && (
+                        <>
+                          <div style={{ fontSize: 13, opacity: 0.7 }}>Hasta</div>
+                          <input type="date" value={form.endDate} onChange={(e) => onChange("endDate", e.target.value)} />
+                        </>
+                      )}
+                      {form.endMode === "COUNT" && (
+                        <>
+                          <div style={{ fontSize: 13, opacity: 0.7 }}>Veces</div>
+                          <input type="number" inputMode="numeric" min={1} value={form.count} onChange={(e) => onChange("count", e.target.value)} />
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
+                {(form.repeat !== "NONE" || form.date > todayStr()) && (
+                  <label style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 12 }}>
+                    <input type="checkbox" style={{ width: 20, height: 20 }} checked={form.autoPost} onChange={(e) => onChange("autoPost", e.target.checked)} />
+                    <span style={{ fontSize: 14 }}>Registrar automáticamente en su fecha (si no, queda pendiente de confirmar)</span>
+                  </label>
+                )}
+
                 <button
                   className="btn-primary"
                   onClick={addTx}
@@ -613,36 +6679,300 @@ export default function App() {
                     gap: 8,
                   }}
                 >
-                  + Guardar
+                  {form.editingId ? "Guardar cambios" : "+ Guardar"}
                 </button>
+                {form.editingId && (
+                  <button style={{ marginTop: 8 }} onClick={cancelEdit}>
+                    Cancelar edición
+                  </button>
+                )}
               </div>
             </section>
           )}
 
+          {tab === "presupuesto" && (
+            <BudgetsTab budgets={budgets || []} setBudgets={setBudgets} categories={categories} txs={inBase.txs} currency={baseCurrency} />
+          )}
+
+          {tab === "recurrentes" && <RecurringTab rules={rules || []} setRules={setRules} onTxs={txUndo.commit} accounts={accounts} categories={categories} />}
+
+          {tab === "cuentas" && (
+            <section style={{ display: "grid", gap: 16 }}>
+              {reconcilingAccount && (
+                <ReconcilePanel
+                  key={reconcilingAccount.id}
+                  account={reconcilingAccount}
+                  accounts={accounts}
+                  txs={txs || []}
+                  onFinish={(result) => finishReconcile(reconcilingAccount.id, result)}
+                  onCancel={() => setReconciling(null)}
+                />
+              )}
+              <AccountsTab
+                accounts={accounts}
+                setAccounts={setAccounts}
+                txs={txs || []}
+                summary={summary}
+                onReconcile={(id) => {
+                  setReconciling(id);
+                  window.scrollTo?.(0, 0);
+                }}
+              />
+            </section>
+          )}
+
+          {tab === "patrimonio" && <NetWorthTab accounts={accounts} txs={txs || []} valuations={valuations} rates={rates} currency={baseCurrency} />}
+
+          {tab === "monedas" && <CurrenciesTab accounts={accounts} rates={rates} setRates={setRates} settings={settings} setSettings={setSettings} />}
+
+          {tab === "categorias" && (
+            <CategoriesTab
+              categories={categories}
+              setCategories={setCategories}
+              txs={txs || []}
+              onUpdateTxs={updateTxs}
+              setBudgets={setBudgets}
+              setRules={setRules}
+              setPayees={setPayees}
+            />
+          )}
+
+          {tab === "beneficiarios" && (
+            <PayeesTab payees={payees} setPayees={setPayees} categories={categories} txs={txs || []} onUpdateTxs={updateTxs} loans={loans} setLoans={setLoans} />
+          )}
+          {tab === "inversiones" && (
+            <InvestmentsTab accounts={accounts} txs={txs || []} valuations={valuations} setValuations={setValuations} onAccounts={() => setTab("cuentas")} />
+          )}
+          {tab === "prestamos" && (
+            <LoansTab
+              loans={loans}
+              setLoans={setLoans}
+              payees={payees}
+              setPayees={setPayees}
+              accounts={accounts}
+              txs={txs || []}
+              rates={rates}
+              currency={baseCurrency}
+              onTxs={txUndo.commit}
+            />
+          )}
+          {tab === "metas" && <GoalsTab goals={goals} setGoals={setGoals} accounts={accounts} txs={txs || []} onUpdateTxs={updateTxs} />}
+
+          {tab === "sincronizar" && <SyncTab config={syncConfig} status={syncStatus} onSave={saveSync} onSyncNow={syncNow} onDisable={disableSync} />}
+          {tab === "respaldo" && (
+            <BackupTab data={backupData} loadFiles={() => exportAttachments(store, [...new Set(attachmentIds(txs || []))])} onRestore={restoreBackup} />
+          )}
+
+          {tab === "seguridad" && (
+            <SecurityTab
+              security={security}
+              onEnable={enablePin}
+              onChangePin={changePin}
+              onDisable={disablePin}
+              onLockMinutes={setLockMinutes}
+              onLockNow={onLock}
+              syncing={!!syncConfig}
+            />
+          )}
+
           {tab === "reportes" && (
             <section style={{ display: "grid", gap: 16 }}>
+              {csvImport && (
+                <CsvImportWizard
+                  fileName={csvImport.fileName}
+                  text={csvImport.text}
+                  accounts={accounts}
+                  categories={categories}
+                  txs={txs || []}
+                  onCommit={(imported) => {
+                    commitImport("Importar CSV", imported);
+                    setCsvImport(null);
+                  }}
+                  onCancel={() => setCsvImport(null)}
+                />
+              )}
+              {statementImport && (
+                <StatementImportWizard
+                  fileName={statementImport.fileName}
+                  text={statementImport.text}
+                  format={statementImport.format}
+                  accounts={accounts}
+                  categories={categories}
+                  txs={txs || []}
+                  onCommit={(imported) => {
+                    commitImport(`Importar ${statementImport.format.toUpperCase()}`, imported);
+                    setStatementImport(null);
+                  }}
+                  onCancel={() => setStatementImport(null)}
+                />
+              )}
+
               <div className="card" style={{ padding: 16 }}>
                 <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
-                  <select value={reportMonth} onChange={(e) => setReportMonth(e.target.value)}>
+                  <select
+                    value={reportPeriod}
+                    onChange={(e) => setFilter((f) => ({ ...f, ...(e.target.value === "__all__" ? { from: "", to: "" } : monthRange(e.target.value)) }))}
+                  >
                     <option value="__all__">Todos los meses</option>
                     {last12.map((m) => (
                       <option key={m} value={m}>
                         {m}
                       </option>
                     ))}
+                    <option value="__custom__" disabled>
+                      Rango personalizado
+                    </option>
+                  </select>
+                  <select value={spendBasis} onChange={(e) => setSpendBasis(e.target.value as SpendBasis)}>
+                    <option value="COMPRA">Gastos por fecha de compra</option>
+                    <option value="CUOTA">Gastos por cuota facturada</option>
                   </select>
                   <button onClick={exportCSV}>Exportar</button>
                   <label style={{ cursor: "pointer" }}>
                     Importar CSV
                     <input
                       type="file"
-                      accept=".csv"
+                      accept=".csv,.txt"
                       style={{ display: "none" }}
-                      onChange={(e) => e.target.files && e.target.files[0] && importCSV(e.target.files[0])}
+                      onChange={(e) => {
+                        if (e.target.files && e.target.files[0]) importCSV(e.target.files[0]);
+                        e.target.value = "";
+                      }}
                     />
                   </label>
+                  <label style={{ cursor: "pointer" }}>
+                    Importar OFX/QIF
+                    <input
+                      type="file"
+                      accept=".ofx,.qfx,.qif"
+                      style={{ display: "none" }}
+                      onChange={(e) => {
+                        if (e.target.files && e.target.files[0]) importStatement(e.target.files[0]);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </div>
+
+                {/* Filtros */}
+                <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))", gap: 8, marginTop: 12 }}>
+                  <input
+                    type="search"
+                    placeholder="Buscar en notas"
+                    value={filter.text}
+                    onChange={(e) => setFilterField("text", e.target.value)}
+                    style={{ gridColumn: "1 / -1" }}
+                  />
+                  <select value={filter.type} onChange={(e) => setFilterField("type", e.target.value)}>
+                    <option value="">Todos los tipos</option>
+                    <option value="GASTO">Gastos</option>
+                    <option value="INGRESO">Ingresos</option>
+                    <option value="TRANSFERENCIA">Transferencias</option>
+                  </select>
+                  <select value={filter.accountId} onChange={(e) => setFilterField("accountId", e.target.value)}>
+                    <option value="">Todas las cuentas</option>
+                    {accounts.map((a) => (
+                      <option key={a.id} value={a.id}>
+                        {a.name}
+                        {a.archived ? " (archivada)" : ""}
+                      </option>
+                    ))}
+                  </select>
+                  <select value={filter.categoryId} onChange={(e) => setFilterField("categoryId", e.target.value)}>
+                    <option value="">Todas las categorías</option>
+                    {(["GASTO", "INGRESO"] as const).map((kind) =>
+                      categoryTree(categories, kind).map(({ category: c, depth }) => (
+                        <option key={c.id} value={c.id}>
+                          {depth ? "\u00A0\u00A0\u00A0› " : ""}
+                          {c.icon} {c.name}
+                        </option>
+                      ))
+                    )}
+                  </select>
+                  <select value={filter.paymentMethod} onChange={(e) => setFilterField("paymentMethod", e.target.value)}>
+                    <option value="">Todos los medios de pago</option>
+                    {PAYMENT_METHODS.map((m) => (
+                      <option key={m.id} value={m.id}>
+                        {m.label}
+                      </option>
+                    ))}
+                  </select>
+                  <select value={filter.payeeId} onChange={(e) => setFilterField("payeeId", e.target.value)}>
+                    <option value="">Todos los beneficiarios</option>
+                    {[...payees]
+                      .sort((a, b) => a.name.localeCompare(b.name))
+                      .map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name}
+                        </option>
+                      ))}
+                  </select>
+                  <select value={filter.tag} onChange={(e) => setFilterField("tag", e.target.value)}>
+                    <option value="">Todas las etiquetas</option>
+                    {allTags.map((tag) => (
+                      <option key={tag} value={tag}>
+                        #{tag}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    inputMode="decimal"
+                    placeholder="Monto mínimo"
+                    value={filter.minAmount}
+                    onChange={(e) => setFilterField("minAmount", e.target.value)}
+                  />
+                  <input
+                    inputMode="decimal"
+                    placeholder="Monto máximo"
+                    value={filter.maxAmount}
+                    onChange={(e) => setFilterField("maxAmount", e.target.value)}
+                  />
+                  <input type="date" title="Desde" value={filter.from} onChange={(e) => setFilterField("from", e.target.value)} />
+                  <input type="date" title="Hasta" value={filter.to} onChange={(e) => setFilterField("to", e.target.value)} />
+                </div>
+                <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 8 }}>
+                  <select
+                    value={activeView?.id || ""}
+                    onChange={(e) => {
+                      const view = reportViews.find((v) => v.id === e.target.value);
+                      if (view) setFilter({ ...emptyTxFilter, ...view.filter });
+                    }}
+                    style={{ flex: 1, minWidth: 160 }}
+                  >
+                    <option value="">{reportViews.length ? "Vistas guardadas…" : "Sin vistas guardadas"}</option>
+                    {reportViews.map((v) => (
+                      <option key={v.id} value={v.id}>
+                        {v.name}
+                      </option>
+                    ))}
+                  </select>
+                  {activeView && (
+                    <button style={{ width: "auto" }} onClick={() => confirm(`¿Borrar la vista "${activeView.name}"?`) && removeView(activeView.id)}>
+                      Borrar vista
+                    </button>
+                  )}
+                  <input placeholder="Nombre de la vista" value={viewName} onChange={(e) => setViewName(e.target.value)} style={{ flex: 1, minWidth: 160 }} />
+                  <button style={{ width: "auto" }} onClick={saveView} disabled={!isFilterActive(filter)}>
+                    Guardar vista
+                  </button>
+                  {isFilterActive(filter) && (
+                    <button style={{ width: "auto" }} onClick={() => setFilter(emptyTxFilter)}>
+                      Limpiar filtros
+                    </button>
+                  )}
+                  {isFilterActive(filter) && (
+                    <span style={{ fontSize: 13, opacity: 0.7 }}>
+                      {txsFiltered.length} de {(txs || []).length} movimientos
+                    </span>
+                  )}
                 </div>
 
+                {inBase.missing.length > 0 && (
+                  <div style={{ fontSize: 13, color: "#C0392B", marginTop: 8 }}>
+                    Sin tasa de cambio para {inBase.missing.join(", ")}: esos movimientos no se suman en los totales.
+                  </div>
+                )}
+
                 {/* Totales */}
                 <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16, marginTop: 12 }}>
                   <div className="card">
@@ -651,7 +6981,7 @@ export default function App() {
                       {gastosPorCuenta.map((g) => (
                         <li key={g.name} style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderTop: `1px solid ${PALETTE.line}` }}>
                           <span>{g.name}</span>
-                          <strong>{fmtCOP(g.value)}</strong>
+                          <strong>{fmtMoney(g.value, baseCurrency)}</strong>
                         </li>
                       ))}
                       {gastosPorCuenta.length === 0 && <div style={{ opacity: 0.6 }}>Sin datos</div>}
@@ -659,23 +6989,157 @@ export default function App() {
                   </div>
                   <div className="card">
                     <div style={{ fontWeight: 600, marginBottom: 8 }}>Gastos por categoría</div>
+                    {gastosPorCategoria.length > 0 && (
+                      <div style={{ height: 220 }}>
+                        <ResponsiveContainer width="100%" height="100%">
+                          <PieChart>
+                            <Pie
+                              dataKey="value"
+                              data={gastosPorCategoria}
+                              innerRadius="55%"
+                              outerRadius="90%"
+                              paddingAngle={1}
+                              onClick={(entry: any) => toggleCategoryFilter(entry?.payload?.id ?? entry?.id)}
+                              style={{ cursor: "pointer" }}
+                            >
+                              {gastosPorCategoria.map((g) => (
+                                <Cell key={g.id} fill={g.color} stroke={filter.categoryId === g.id ? PALETTE.accent : "white"} />
+                              ))}
+                            </Pie>
+                            <Tooltip formatter={chartMoney} />
+                          </PieChart>
+                        </ResponsiveContainer>
+                      </div>
+                    )}
                     <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
                       {gastosPorCategoria.map((g) => (
-                        <li key={g.name} style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderTop: `1px solid ${PALETTE.line}` }}>
-                          <span>{g.name}</span>
-                          <strong>{fmtCOP(g.value)}</strong>
+                        <li key={g.id} style={{ padding: "6px 0", borderTop: `1px solid ${PALETTE.line}` }}>
+                          <div
+                            style={{ display: "flex", justifyContent: "space-between", cursor: "pointer" }}
+                            onClick={() => setOpenCategory((o) => (o === g.id ? null : g.id))}
+                          >
+                            <span>
+                              <span style={{ display: "inline-block", width: 10, height: 10, borderRadius: 5, background: g.color, marginRight: 6 }} />
+                              {g.name} {g.children.length > 1 || g.children[0]?.name !== "General" ? (openCategory === g.id ? "▾" : "▸") : ""}
+                            </span>
+                            <strong>{fmtMoney(g.value, baseCurrency)}</strong>
+                          </div>
+                          {openCategory === g.id &&
+                            g.children.map((ch) => (
+                              <div key={ch.name} style={{ display: "flex", justifyContent: "space-between", fontSize: 13, padding: "4px 0 0 16px" }}>
+                                <span>› {ch.name}</span>
+                                <span>{fmtMoney(ch.value, baseCurrency)}</span>
+                              </div>
+                            ))}
                         </li>
                       ))}
                       {gastosPorCategoria.length === 0 && <div style={{ opacity: 0.6 }}>Sin datos</div>}
                     </ul>
                   </div>
+                  <div className="card">
+                    <div style={{ fontWeight: 600, marginBottom: 8 }}>Gastos por beneficiario</div>
+                    <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+                      {gastosPorBeneficiario.map((g) => (
+                        <li
+                          key={g.id}
+                          style={{
+                            display: "flex",
+                            justifyContent: "space-between",
+                            padding: "6px 0",
+                            borderTop: `1px solid ${PALETTE.line}`,
+                            cursor: "pointer",
+                          }}
+                          onClick={() => g.id !== "__none__" && setFilter((f) => ({ ...f, payeeId: f.payeeId === g.id ? "" : g.id }))}
+                        >
+                          <span style={{ fontWeight: filter.payeeId === g.id ? 600 : undefined }}>{g.name}</span>
+                          <strong>{fmtMoney(g.value, baseCurrency)}</strong>
+                        </li>
+                      ))}
+                      {gastosPorBeneficiario.length === 0 && <div style={{ opacity: 0.6 }}>Sin datos</div>}
+                    </ul>
+                  </div>
+                  <div className="card">
+                    <div style={{ fontWeight: 600, marginBottom: 8 }}>Gastos por etiqueta</div>
+                    <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
+                      {gastosPorEtiqueta.map((g) => (
+                        <li
+                          key={g.name}
+                          style={{
+                            display: "flex",
+                            justifyContent: "space-between",
+                            padding: "6px 0",
+                            borderTop: `1px solid ${PALETTE.line}`,
+                            cursor: "pointer",
+                          }}
+                          onClick={() => setFilter((f) => ({ ...f, tag: normalizeText(f.tag) === normalizeText(g.name) ? "" : g.name }))}
+                        >
+                          <span style={{ fontWeight: normalizeText(filter.tag) === normalizeText(g.name) ? 600 : undefined }}>#{g.name}</span>
+                          <strong>{fmtMoney(g.value, baseCurrency)}</strong>
+                        </li>
+                      ))}
+                      {gastosPorEtiqueta.length === 0 && <div style={{ opacity: 0.6 }}>Sin datos</div>}
+                    </ul>
+                  </div>
                 </div>
 
+                {/* Acciones en lote */}
+                {selected.size > 0 && (
+                  <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 12 }}>
+                    <strong style={{ whiteSpace: "nowrap" }}>{selected.size} seleccionados</strong>
+                    <select value="" onChange={(e) => e.target.value && bulkRecategorize(e.target.value)} style={{ flex: 1, minWidth: 160 }}>
+                      <option value="">Recategorizar…</option>
+                      {(["GASTO", "INGRESO"] as const).map((kind) =>
+                        categoryTree(categories, kind).map(({ category: c, depth }) => (
+                          <option key={c.id} value={c.id}>
+                            {depth ? "\u00A0\u00A0\u00A0› " : ""}
+                            {c.icon} {c.name}
+                          </option>
+                        ))
+                      )}
+                    </select>
+                    <select value="" onChange={(e) => e.target.value && bulkMove(e.target.value)} style={{ flex: 1, minWidth: 160 }}>
+                      <option value="">Mover a cuenta…</option>
+                      {activeAccounts.map((a) => (
+                        <option key={a.id} value={a.id}>
+                          {a.name}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      placeholder="Etiqueta"
+                      list="tag-names"
+                      value={bulkTag}
+                      onChange={(e) => setBulkTag(e.target.value)}
+                      style={{ flex: 1, minWidth: 120 }}
+                    />
+                    <button style={{ width: "auto" }} disabled={!parseTags(bulkTag).length} onClick={bulkAddTags}>
+                      Etiquetar
+                    </button>
+                    <button
+                      style={{ width: "auto" }}
+                      onClick={() => confirm(`¿Borrar ${selected.size} movimientos?`) && removeTxs([...selected], "Borrar en lote")}
+                    >
+                      Borrar
+                    </button>
+                    <button style={{ width: "auto" }} onClick={() => setSelected(new Set())}>
+                      Quitar selección
+                    </button>
+                  </div>
+                )}
+
                 {/* Tabla */}
                 <div style={{ marginTop: 12, overflowX: "auto" }}>
                   <table style={{ width: "100%", fontSize: 14 }}>
                     <thead>
                       <tr style={{ color: PALETTE.text, opacity: 0.8 }}>
+                        <th style={{ width: 28 }}>
+                          <input
+                            type="checkbox"
+                            style={{ width: 18, height: 18 }}
+                            checked={!!txsFiltered?.length && txsFiltered.every((t) => selected.has(t.id))}
+                            onChange={(e) => setSelected(e.target.checked ? new Set((txsFiltered || []).map((t) => t.id)) : new Set())}
+                          />
+                        </th>
                         <th style={{ textAlign: "left", padding: "8px 0" }}>Fecha</th>
                         <th style={{ textAlign: "left" }}>Tipo</th>
                         <th style={{ textAlign: "left" }}>Monto</th>
@@ -687,28 +7151,121 @@ export default function App() {
                     </thead>
                     <tbody>
                       {(txsFiltered || []).map((t) => (
-                        <tr key={t.id} style={{ borderTop: `1px solid ${PALETTE.line}` }}>
-                          <td style={{ padding: "8px 0", whiteSpace: "nowrap" }}>{t.date}</td>
-                          <td>{t.type}</td>
-                          <td>{fmtCOP(t.amountCents)}</td>
-                          <td>
-                            {t.type === "INGRESO" && (accounts.find((a) => a.id === t.accountToId)?.name || "—")}
-                            {t.type === "GASTO" && (accounts.find((a) => a.id === t.accountFromId)?.name || "—")}
-                            {t.type === "TRANSFERENCIA" &&
-                              `${accounts.find((a) => a.id === t.accountFromId)?.name || "—"} → ${accounts.find((a) => a.id === t.accountToId)?.name || "—"}`}
-                          </td>
-                          <td>{categories.find((c) => c.id === t.categoryId)?.name || "—"}</td>
-                          <td title={t.note || ""} style={{ maxWidth: 280, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
-                            {t.note || ""}
-                          </td>
-                          <td>
-                            <button onClick={() => setTxs((prev) => (prev || []).filter((x) => x.id !== t.id))}>Borrar</button>
-                          </td>
-                        </tr>
+                        <React.Fragment key={t.id}>
+                          <tr style={{ borderTop: `1px solid ${PALETTE.line}`, background: form.editingId === t.id ? "#FAFEFF" : undefined }}>
+                            <td>
+                              <input type="checkbox" style={{ width: 18, height: 18 }} checked={selected.has(t.id)} onChange={() => toggleSelected(t.id)} />
+                            </td>
+                            <td style={{ padding: "8px 0", whiteSpace: "nowrap" }}>
+                              {t.date}
+                              {t.reconciled ? (
+                                <span title="Conciliado"> 🔒</span>
+                              ) : (
+                                t.cleared && (
+                                  <span title="Verificado" style={{ opacity: 0.7 }}>
+                                    {" "}
+                                    ✓
+                                  </span>
+                                )
+                              )}
+                            </td>
+                            <td>{t.type}</td>
+                            <td style={{ whiteSpace: "nowrap" }}>
+                              {fmtMoney(t.amountCents, txCurrency(accounts, t))}
+                              {t.amountToCents != null && (
+                                <span style={{ fontSize: 12, opacity: 0.7 }}>
+                                  {" "}
+                                  → {fmtMoney(t.amountToCents, accountCurrency(accounts.find((a) => a.id === t.accountToId)))}
+                                </span>
+                              )}
+                              {t.originalCurrency && (
+                                <span style={{ fontSize: 12, opacity: 0.7 }}> · {fmtMoney(t.originalAmountCents, t.originalCurrency)}</span>
+                              )}
+                              {(t.installments || 1) > 1 && <span style={{ fontSize: 12, opacity: 0.7 }}> · {t.installments} cuotas</span>}
+                            </td>
+                            <td>
+                              {t.type === "INGRESO" && (accounts.find((a) => a.id === t.accountToId)?.name || "—")}
+                              {t.type === "GASTO" && (accounts.find((a) => a.id === t.accountFromId)?.name || "—")}
+                              {t.type === "TRANSFERENCIA" &&
+                                `${accounts.find((a) => a.id === t.accountFromId)?.name || "—"} → ${accounts.find((a) => a.id === t.accountToId)?.name || "—"}`}
+                            </td>
+                            <td>
+                              {t.splits?.length
+                                ? t.splits.map((l) => categoryLabel(categories, l.categoryId)).join(" + ")
+                                : categoryLabel(categories, t.categoryId) || "—"}
+                            </td>
+                            <td title={t.note || ""} style={{ maxWidth: 280, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                              {t.note || ""}
+                              {(t.payeeId || t.goalId || !!t.tags?.length) && (
+                                <div style={{ fontSize: 12, opacity: 0.7 }}>
+                                  {[
+                                    payees.find((p) => p.id === t.payeeId)?.name,
+                                    t.goalId && `🎯 ${goals.find((g) => g.id === t.goalId)?.name || "Meta borrada"}`,
+                                    t.loanId && "🤝 Préstamo",
+                                    ...(t.tags || []).map((tag) => `#${tag}`),
+                                  ]
+                                    .filter(Boolean)
+                                    .join(" · ")}
+                                </div>
+                              )}
+                              {!!t.attachments?.length && (
+                                <div style={{ display: "flex", gap: 6, marginTop: 4 }}>
+                                  {t.attachments.map((a) => (
+                                    <AttachmentChip key={a.id} store={store} attachment={a} onRemove={() => detachFromTx(t, a.id)} />
+                                  ))}
+                                </div>
+                              )}
+                            </td>
+                            <td>
+                              <div style={{ display: "flex", gap: 6 }}>
+                                {t.reconciled ? (
+                                  <button style={{ width: "auto" }} onClick={() => unlockTx(t)}>
+                                    Desbloquear
+                                  </button>
+                                ) : (
+                                  <button style={{ width: "auto" }} onClick={() => startEdit(t)}>
+                                    Editar
+                                  </button>
+                                )}
+                                {!!(txHistory || {})[t.id]?.length && (
+                                  <button style={{ width: "auto" }} onClick={() => setHistoryOpen((o) => (o === t.id ? null : t.id))}>
+                                    Historial
+                                  </button>
+                                )}
+                                <button style={{ width: "auto" }} disabled={!!t.reconciled} onClick={() => removeTxs([t.id], "Borrar movimiento")}>
+                                  Borrar
+                                </button>
+                                <AttachmentPicker store={store} compact onAdd={(refs) => attachToTx(t, refs)} />
+                              </div>
+                            </td>
+                          </tr>
+                          {historyOpen === t.id && (
+                            <tr>
+                              <td colSpan={8} style={{ padding: "4px 0 12px 12px", fontSize: 13 }}>
+                                {((txHistory || {})[t.id] || []).map((h, i) => (
+                                  <div key={h.at + ":" + i} style={{ display: "flex", justifyContent: "space-between", gap: 8, padding: "4px 0" }}>
+                                    <span>
+                                      <span style={{ opacity: 0.7 }}>{new Date(h.at).toLocaleString("es-CO")}</span>
+                                      {Object.entries(h.changes).map(([f, c]) => (
+                                        <div key={f}>
+                                          {TX_FIELD_LABELS[f as TrackedField]}: {fmtField(f as TrackedField, c?.from, t)} →{" "}
+                                          {fmtField(f as TrackedField, c?.to, t)}
+                                        </div>
+                                      ))}
+                                    </span>
+                                    <button style={{ width: "auto", height: 32 }} onClick={() => revertTx(t.id, i)}>
+                                      Revertir
+                                    </button>
+                                  </div>
+                                ))}
+                              </td>
+                            </tr>
+                          )}
+                        </React.Fragment>
                       ))}
                       {(!txsFiltered || txsFiltered.length === 0) && (
                         <tr>
-                          <td colSpan={7} style={{ textAlign: "center", color: PALETTE.text, opacity: 0.6, padding: 16 }}>
+                          <td colSpan={8} style={{ textAlign: "center", color: PALETTE.text, opacity: 0.6, padding: 16 }}>
                             Sin transacciones
                           </td>
                         </tr>
@@ -719,20 +7276,91 @@ export default function App() {
               </div>
 
               <div className="card">
-                <div style={{ fontWeight: 600, marginBottom: 8 }}>Gastos por mes (últimos 6)</div>
-                <ul style={{ margin: 0, padding: 0, listStyle: "none" }}>
-                  {gastosPorMes.map((g) => (
-                    <li key={g.name} style={{ display: "flex", justifyContent: "space-between", padding: "6px 0", borderTop: `1px solid ${PALETTE.line}` }}>
-                      <span>{g.name}</span>
-                      <strong>{fmtCOP(g.value)}</strong>
-                    </li>
-                  ))}
-                  {gastosPorMes.length === 0 && <div style={{ opacity: 0.6 }}>Sin datos</div>}
-                </ul>
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, marginBottom: 8 }}>
+                  <div style={{ fontWeight: 600 }}>Ingresos, gastos y ahorro por mes</div>
+                  <select value={trendMonths} onChange={(e) => setTrendMonths(Number(e.target.value))} style={{ width: "auto" }}>
+                    <option value={6}>Últimos 6 meses</option>
+                    <option value={12}>Últimos 12 meses</option>
+                    <option value={24}>Últimos 24 meses</option>
+                    <option value={0}>Todo</option>
+                  </select>
+                </div>
+                {flujoMensual.length > 0 ? (
+                  <div style={{ height: 280 }}>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={flujoMensual}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="name" />
+                        <YAxis tickFormatter={chartMoney} width={96} />
+                        <Tooltip formatter={chartMoney} />
+                        <Legend />
+                        <Bar dataKey="ingresos" name="Ingresos" fill="#90A955" />
+                        <Bar dataKey="gastos" name="Gastos" fill="#F28482" />
+                        <Bar dataKey="neto" name="Ahorro neto" fill={PALETTE.accent} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                ) : (
+                  <div style={{ opacity: 0.6 }}>Sin datos</div>
+                )}
+              </div>
+
+              <div className="card">
+                <div style={{ fontWeight: 600, marginBottom: 8 }}>
+                  Flujo de caja acumulado{" "}
+                  <span style={{ fontWeight: 400, fontSize: 13, opacity: 0.7 }}>
+                    {filter.from || filter.to ? `${filter.from || "inicio"} → ${filter.to || "hoy"}` : "todo el historial"}
+                  </span>
+                </div>
+                {flujoAcumulado.length > 0 ? (
+                  <div style={{ height: 240 }}>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={flujoAcumulado}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="date" />
+                        <YAxis tickFormatter={chartMoney} width={96} />
+                        <Tooltip formatter={chartMoney} />
+                        <Line type="stepAfter" dataKey="saldo" name="Acumulado" stroke={PALETTE.accent} dot={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                ) : (
+                  <div style={{ opacity: 0.6 }}>Sin datos</div>
+                )}
               </div>
             </section>
           )}
         </div>
+
+        {/* Deshacer / rehacer */}
+        {(txUndo.undoLabel || txUndo.redoLabel) && (
+          <div
+            style={{
+              position: "fixed",
+              left: 16,
+              right: 16,
+              bottom: 16,
+              maxWidth: 600,
+              margin: "0 auto",
+              display: "flex",
+              gap: 8,
+              alignItems: "center",
+              padding: 8,
+              borderRadius: 16,
+              background: PALETTE.accent,
+              color: "white",
+              zIndex: 20,
+            }}
+          >
+            <span style={{ flex: 1, fontSize: 14, paddingLeft: 8 }}>{txUndo.undoLabel || "Nada que deshacer"}</span>
+            <button style={{ width: "auto" }} disabled={!txUndo.undoLabel} onClick={txUndo.undo}>
+              Deshacer
+            </button>
+            <button style={{ width: "auto" }} disabled={!txUndo.redoLabel} onClick={txUndo.redo}>
+              Rehacer
+            </button>
+          </div>
+        )}
       </div>
     </ErrorBoundary>
   );